@@ -0,0 +1,28 @@
+import { DEFAULT_CACHE_TIMEOUT, DEFAULT_STALE_WHILE_REVALIDATE } from '../utils/cache'
+
+/**
+ * Cache lifetime the client component asked for with `?cacheTimeout=<seconds>`,
+ * or undefined when it's missing or not a non-negative number.
+ */
+export function parseCacheTimeout(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.floor(seconds) : undefined
+}
+
+/**
+ * Cache lifetime to serve a request with when the client component asked for
+ * one longer than the server's `serverTimeout`. Shorter ones are ignored, so
+ * a visitor can't skip the cache and drive traffic upstream.
+ */
+export function requestCacheTimeout(value: unknown, serverTimeout = DEFAULT_CACHE_TIMEOUT): number | undefined {
+  const requested = parseCacheTimeout(value)
+  return requested !== undefined && requested > serverTimeout ? requested : undefined
+}
+
+/** Cache-Control header honoring a requested cache lifetime, or `fallback` without one. */
+export function cacheControlFor(cacheTimeout: number | undefined, fallback: string): string {
+  return cacheTimeout === undefined
+    ? fallback
+    : `public, s-maxage=${cacheTimeout}, stale-while-revalidate=${DEFAULT_STALE_WHILE_REVALIDATE}`
+}
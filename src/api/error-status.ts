@@ -0,0 +1,16 @@
+import type { FetchErrorCode } from '../types'
+
+/**
+ * HTTP status the API handlers respond with for each fetch error code.
+ * Upstream failures are reported as 502 so clients can tell them apart from their own mistakes.
+ */
+export const FETCH_ERROR_STATUS: Record<FetchErrorCode, number> = {
+  INVALID_URL: 400,
+  UNSUPPORTED_PLATFORM: 400,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  UNAUTHORIZED: 502,
+  UPSTREAM_ERROR: 502,
+  TIMEOUT: 504,
+  PARSE_ERROR: 502
+}
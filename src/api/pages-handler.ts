@@ -1,5 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { fetchCommentsForPlatform } from '../utils/fetch-comments'
+import { fetchCommentCountResult, fetchThreadResult, getDiscussionKey, resolvePlatform } from '../utils/fetch-comments'
+import { discoverDiscussions } from '../utils/discover'
+import { FETCH_ERROR_STATUS } from './error-status'
+import { cacheControlFor, requestCacheTimeout } from './cache-control'
+import { isPlatformAllowed } from './platform-access'
 import type { ExternalDiscussion } from '../types'
 
 /**
@@ -19,25 +23,71 @@ export default async function handler(
   }
 
   try {
-    const platform = req.query.platform as ExternalDiscussion['platform']
+    const discover = req.query.discover as string | undefined
+
+    // ?discover=<article URL> lists threads that link to the article instead of fetching comments
+    if (discover) {
+      const discussions = await discoverDiscussions(discover)
+      res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=86400')
+      return res.status(200).json({ discussions })
+    }
+
+    const platform = req.query.platform as string | undefined
     const url = req.query.url as string
+    const id = req.query.id as string | undefined
+    // The client component forwards its cacheTimeout prop, which may only lengthen the default
+    const cacheTimeout = requestCacheTimeout(req.query.cacheTimeout)
+    const cacheControl = cacheControlFor(cacheTimeout, 'public, s-maxage=300, stale-while-revalidate=86400')
 
-    if (!platform || !url) {
+    if (!url) {
       return res.status(400).json({ 
-        error: 'Platform and URL parameters are required' 
+        error: 'URL parameter is required' 
       })
     }
 
-    if (!['v2ex', 'reddit', 'hackernews'].includes(platform)) {
+    // The platform parameter is optional; without it the platform is detected from the URL
+    const adapter = resolvePlatform({ platform, url })
+
+    // Platforms fetching from any host a visitor names, like Mastodon, aren't served
+    if (!adapter || !isPlatformAllowed(adapter)) {
       return res.status(400).json({ 
-        error: `Unsupported platform: ${platform}` 
+        error: `Unsupported platform: ${platform ?? url}`,
+        code: 'UNSUPPORTED_PLATFORM'
       })
     }
 
-    const comments = await fetchCommentsForPlatform({ platform, url })
+    const discussion: ExternalDiscussion = { platform: adapter.id, url, id }
+
+    // ?count=1 returns only the comment count, for badges in list views
+    if (req.query.count) {
+      const countResult = await fetchCommentCountResult(discussion, { cacheTimeout })
+
+      if (!countResult.ok) {
+        return res.status(FETCH_ERROR_STATUS[countResult.error.code]).json({
+          id: getDiscussionKey(discussion),
+          error: countResult.error.message,
+          code: countResult.error.code
+        })
+      }
+
+      res.setHeader('Cache-Control', cacheControl)
+      return res.status(200).json({ id: getDiscussionKey(discussion), count: countResult.data })
+    }
+
+    const result = await fetchThreadResult(discussion, { cacheTimeout })
+
+    if (!result.ok) {
+      return res.status(FETCH_ERROR_STATUS[result.error.code]).json({
+        id: getDiscussionKey(discussion),
+        error: result.error.message,
+        code: result.error.code
+      })
+    }
 
-    res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=86400')
-    return res.status(200).json({ comments })
+    res.setHeader('Cache-Control', cacheControl)
+    // Thread metadata (title, score, comment count) rides alongside the comments
+    const { comments, ...thread } = result.data
+    return res.status(200).json({ id: getDiscussionKey(discussion), comments, thread })
   } catch (error) {
     console.error('Error in external-comments API:', error)
     return res.status(500).json({ 
@@ -0,0 +1,11 @@
+import type { ExternalDiscussion, PlatformAdapter } from '../types'
+
+/**
+ * Whether an API handler serves threads of `adapter`. Platforms that fetch
+ * from any host a visitor names (Mastodon, Discourse and Lemmy instances)
+ * could be pointed at internal hosts, so they're only served when
+ * `allowedPlatforms` lists them.
+ */
+export function isPlatformAllowed(adapter: PlatformAdapter, allowedPlatforms?: ExternalDiscussion['platform'][]): boolean {
+  return allowedPlatforms ? allowedPlatforms.includes(adapter.id) : !adapter.anyHost
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { fetchCommentsForPlatform } from '../utils/fetch-comments'
-import type { ExternalDiscussion } from '../types'
+import { fetchCommentCountResult, fetchThreadResult, getDiscussionKey, resolvePlatform } from '../utils/fetch-comments'
+import { discoverDiscussions } from '../utils/discover'
+import { FETCH_ERROR_STATUS } from './error-status'
+import { cacheControlFor, requestCacheTimeout } from './cache-control'
+import { isPlatformAllowed } from './platform-access'
+import type { ExternalDiscussion, FetchOptions } from '../types'
 
 /**
  * Next.js App Router API route handler for fetching external comments.
@@ -15,35 +19,85 @@ import type { ExternalDiscussion } from '../types'
  * ```ts
  * import { createCommentHandler } from 'discussing/api'
  * export const GET = createCommentHandler({ 
- *   cacheControl: 'public, s-maxage=600'
+ *   cacheControl: 'public, s-maxage=600',
+ *   fetchOptions: { githubToken: process.env.GITHUB_TOKEN, cache: createMemoryCache() }
  * })
  * ```
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const platform = searchParams.get('platform') as ExternalDiscussion['platform']
+    const discover = searchParams.get('discover')
+
+    // ?discover=<article URL> lists threads that link to the article instead of fetching comments
+    if (discover) {
+      const discussions = await discoverDiscussions(discover)
+      return NextResponse.json({ discussions }, {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=86400',
+        },
+      })
+    }
+
+    const platform = searchParams.get('platform') ?? undefined
     const url = searchParams.get('url')
+    const id = searchParams.get('id') ?? undefined
+    // The client component forwards its cacheTimeout prop, which may only lengthen the default
+    const cacheTimeout = requestCacheTimeout(searchParams.get('cacheTimeout'))
+    const cacheControl = cacheControlFor(cacheTimeout, 'public, s-maxage=300, stale-while-revalidate=86400') // Cache for 5 minutes, serve stale up to 1 day
 
-    if (!platform || !url) {
+    if (!url) {
       return NextResponse.json(
-        { error: 'Platform and URL parameters are required' },
+        { error: 'URL parameter is required' },
         { status: 400 }
       )
     }
 
-    if (!['v2ex', 'reddit', 'hackernews'].includes(platform)) {
+    // The platform parameter is optional; without it the platform is detected from the URL
+    const adapter = resolvePlatform({ platform, url })
+
+    // Platforms fetching from any host a visitor names are left to createCommentHandler's allowedPlatforms
+    if (!adapter || !isPlatformAllowed(adapter)) {
       return NextResponse.json(
-        { error: `Unsupported platform: ${platform}` },
+        { error: `Unsupported platform: ${platform ?? url}`, code: 'UNSUPPORTED_PLATFORM' },
         { status: 400 }
       )
     }
 
-    const comments = await fetchCommentsForPlatform({ platform, url })
+    const discussion: ExternalDiscussion = { platform: adapter.id, url, id }
+
+    // ?count=1 returns only the comment count, for badges in list views
+    if (searchParams.get('count')) {
+      const countResult = await fetchCommentCountResult(discussion, { cacheTimeout })
+
+      if (!countResult.ok) {
+        return NextResponse.json(
+          { id: getDiscussionKey(discussion), error: countResult.error.message, code: countResult.error.code },
+          { status: FETCH_ERROR_STATUS[countResult.error.code] }
+        )
+      }
+
+      return NextResponse.json({ id: getDiscussionKey(discussion), count: countResult.data }, {
+        headers: {
+          'Cache-Control': cacheControl,
+        },
+      })
+    }
+
+    const result = await fetchThreadResult(discussion, { cacheTimeout })
 
-    return NextResponse.json({ comments }, {
+    if (!result.ok) {
+      return NextResponse.json(
+        { id: getDiscussionKey(discussion), error: result.error.message, code: result.error.code },
+        { status: FETCH_ERROR_STATUS[result.error.code] }
+      )
+    }
+
+    // Thread metadata (title, score, comment count) rides alongside the comments
+    const { comments, ...thread } = result.data
+    return NextResponse.json({ id: getDiscussionKey(discussion), comments, thread }, {
       headers: {
-        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=86400', // Cache for 5 minutes, serve stale up to 1 day
+        'Cache-Control': cacheControl,
       },
     })
   } catch (error) {
@@ -59,39 +113,96 @@ export async function GET(request: NextRequest) {
  * Factory function to create a custom comment handler with configuration
  */
 export function createCommentHandler(options: {
+  /** Cache-Control header for every response; without it, one follows the cache lifetime */
   cacheControl?: string
+  /**
+   * Restrict the handler to these platforms (default: every registered platform
+   * except Mastodon, Discourse and Lemmy, which fetch from any host a visitor names)
+   */
   allowedPlatforms?: ExternalDiscussion['platform'][]
+  /** Server-side fetch options, e.g. API tokens that must not reach the browser, or a `cache` store */
+  fetchOptions?: FetchOptions
 } = {}) {
   const {
-    cacheControl = 'public, s-maxage=300, stale-while-revalidate=86400',
-    allowedPlatforms = ['v2ex', 'reddit', 'hackernews']
+    cacheControl,
+    allowedPlatforms,
+    fetchOptions = {}
   } = options
 
   return async function handler(request: NextRequest) {
     try {
       const { searchParams } = new URL(request.url)
-      const platform = searchParams.get('platform') as ExternalDiscussion['platform']
+      const discover = searchParams.get('discover')
+
+      if (discover) {
+        const discussions = (await discoverDiscussions(discover, fetchOptions))
+          .filter((discussion) => !allowedPlatforms || allowedPlatforms.includes(discussion.platform))
+        return NextResponse.json({ discussions }, {
+          headers: {
+            'Cache-Control': cacheControl ?? 'public, s-maxage=300, stale-while-revalidate=86400',
+          },
+        })
+      }
+
+      const platform = searchParams.get('platform') ?? undefined
       const url = searchParams.get('url')
+      const id = searchParams.get('id') ?? undefined
+      // The server's fetchOptions and cacheControl win; the client's cacheTimeout may only lengthen them
+      const cacheTimeout = requestCacheTimeout(searchParams.get('cacheTimeout'), fetchOptions.cacheTimeout)
+      const requestFetchOptions: FetchOptions = cacheTimeout === undefined ? fetchOptions : { ...fetchOptions, cacheTimeout }
+      const responseCacheControl = cacheControl
+        ?? cacheControlFor(cacheTimeout ?? fetchOptions.cacheTimeout, 'public, s-maxage=300, stale-while-revalidate=86400')
 
-      if (!platform || !url) {
+      if (!url) {
         return NextResponse.json(
-          { error: 'Platform and URL parameters are required' },
+          { error: 'URL parameter is required' },
           { status: 400 }
         )
       }
 
-      if (!allowedPlatforms.includes(platform)) {
+      // The platform parameter is optional; without it the platform is detected from the URL
+      const adapter = resolvePlatform({ platform, url })
+
+      if (!adapter || !isPlatformAllowed(adapter, allowedPlatforms)) {
         return NextResponse.json(
-          { error: `Unsupported platform: ${platform}` },
+          { error: `Unsupported platform: ${platform ?? url}`, code: 'UNSUPPORTED_PLATFORM' },
           { status: 400 }
         )
       }
 
-      const comments = await fetchCommentsForPlatform({ platform, url })
+      const discussion: ExternalDiscussion = { platform: adapter.id, url, id }
+
+      if (searchParams.get('count')) {
+        const countResult = await fetchCommentCountResult(discussion, requestFetchOptions)
+
+        if (!countResult.ok) {
+          return NextResponse.json(
+            { id: getDiscussionKey(discussion), error: countResult.error.message, code: countResult.error.code },
+            { status: FETCH_ERROR_STATUS[countResult.error.code] }
+          )
+        }
+
+        return NextResponse.json({ id: getDiscussionKey(discussion), count: countResult.data }, {
+          headers: {
+            'Cache-Control': responseCacheControl,
+          },
+        })
+      }
+
+      const result = await fetchThreadResult(discussion, requestFetchOptions)
 
-      return NextResponse.json({ comments }, {
+      if (!result.ok) {
+        return NextResponse.json(
+          { id: getDiscussionKey(discussion), error: result.error.message, code: result.error.code },
+          { status: FETCH_ERROR_STATUS[result.error.code] }
+        )
+      }
+
+      // Thread metadata (title, score, comment count) rides alongside the comments
+      const { comments, ...thread } = result.data
+      return NextResponse.json({ id: getDiscussionKey(discussion), comments, thread }, {
         headers: {
-          'Cache-Control': cacheControl,
+          'Cache-Control': responseCacheControl,
         },
       })
     } catch (error) {
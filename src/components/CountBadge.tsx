@@ -0,0 +1,52 @@
+import React from 'react'
+import { getDiscussionKey, resolvePlatform } from '../utils/fetch-comments'
+import type { ExternalDiscussion } from '../types'
+
+interface CountBadgeProps {
+  discussions: ExternalDiscussion[]
+  /** Comment counts keyed by `getDiscussionKey`; missing or `null` counts are left out */
+  counts: Record<string, number | null | undefined>
+  className?: string
+}
+
+/**
+ * Compact "12 comments on Hacker News · 40 comments on Reddit" line shared by
+ * `DiscussionCount` and `DiscussionCountServer`. Each entry links to its thread.
+ */
+export default function CountBadge({ discussions, counts, className = '' }: CountBadgeProps) {
+  const entries = discussions.filter((discussion) => typeof counts[getDiscussionKey(discussion)] === 'number')
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+      {entries.map((discussion, index) => {
+        const key = getDiscussionKey(discussion)
+        const count = counts[key] as number
+        const adapter = resolvePlatform(discussion)
+
+        return (
+          <React.Fragment key={key}>
+            {index > 0 && <span className="text-gray-300 dark:text-gray-600">·</span>}
+            <a
+              href={discussion.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+              style={{ textDecoration: 'none' }}
+            >
+              {adapter?.icon && (
+                <img src={adapter.icon} alt="" width={12} height={12} className="w-3 h-3 rounded-sm" />
+              )}
+              <span>
+                <span className="tabular-nums">{count}</span> {count === 1 ? 'comment' : 'comments'} on {adapter?.name ?? discussion.platform ?? discussion.url}
+              </span>
+            </a>
+          </React.Fragment>
+        )
+      })}
+    </span>
+  )
+}
@@ -1,14 +1,20 @@
 'use client'
 
-import React, { useState, useCallback, useEffect } from 'react'
-import { formatRelativeTime, renderCommentContent } from '../utils/comment-format'
-import type { ExternalDiscussion, Comment, FetchOptions } from '../types'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
+import { describeFetchError, formatRelativeTime, formatThreadStats, renderCommentContent } from '../utils/comment-format'
+import { DiscussionFetchError, getCommentFormat, getDiscussionKey, getPlatform, resolvePlatform } from '../utils/fetch-comments'
+import type { ExternalDiscussion, Comment, DiscussionThread, FetchOptions } from '../types'
+
+/** Thread metadata as returned by the API handlers, next to the comments */
+type ThreadMetadata = Omit<DiscussionThread, 'comments'>
 
 /** Top-level comments shown before the rest collapse behind a "show more" disclosure. */
 const VISIBLE_COMMENTS = 8
 
 interface DiscussionProps {
   discussions?: ExternalDiscussion[]
+  /** Article URL used to discover Hacker News and Reddit threads when no discussions are given */
+  canonicalUrl?: string
   className?: string
   fetchOptions?: FetchOptions
   /** Custom Image component for avatar rendering (e.g., Next.js Image) */
@@ -37,7 +43,8 @@ interface DiscussionProps {
  * - You're not using Next.js or want framework-agnostic solution
  */
 export default function Discussion({ 
-  discussions = [], 
+  discussions: explicitDiscussions = [], 
+  canonicalUrl,
   className = '',
   fetchOptions = {},
   ImageComponent,
@@ -45,63 +52,121 @@ export default function Discussion({
   enableRefresh = false,
   refreshInterval = 300 // 5 minutes
 }: DiscussionProps) {
-  const [commentsByPlatform, setCommentsByPlatform] = useState<Record<string, Comment[]>>({})
+  const [commentsByDiscussion, setCommentsByDiscussion] = useState<Record<string, Comment[]>>({})
+  const [threadsByDiscussion, setThreadsByDiscussion] = useState<Record<string, ThreadMetadata>>({})
   const [loading, setLoading] = useState<Record<string, boolean>>({})
   const [error, setError] = useState<Record<string, string>>({})
+  const [discovered, setDiscovered] = useState<ExternalDiscussion[]>([])
+  // Controller for the comment requests in flight, aborted when they're superseded
+  const inFlight = useRef<AbortController | null>(null)
 
-  const fetchCommentsForPlatform = useCallback(async (discussion: ExternalDiscussion): Promise<Comment[]> => {
-    try {
-      const params = new URLSearchParams({
-        platform: discussion.platform,
-        url: discussion.url
+  // Requests to the API endpoint honor a custom fetch implementation too
+  const fetchImpl = fetchOptions.fetch ?? fetch
+
+  const shouldDiscover = explicitDiscussions.length === 0 && !!canonicalUrl
+  const discussions = shouldDiscover ? discovered : explicitDiscussions
+
+  // Ask the API endpoint for threads linking to the article when none were given
+  useEffect(() => {
+    if (!shouldDiscover) return
+
+    const controller = new AbortController()
+    fetchImpl(`${apiEndpoint}?${new URLSearchParams({ discover: canonicalUrl! })}`, { signal: controller.signal })
+      .then((response) => response.ok ? response.json() : { discussions: [] })
+      .then((data) => setDiscovered(data.discussions || []))
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error('Failed to discover discussions:', err)
       })
+
+    return () => controller.abort()
+  }, [shouldDiscover, canonicalUrl, apiEndpoint, fetchImpl])
+
+  const fetchThread = useCallback(async (discussion: ExternalDiscussion, signal: AbortSignal): Promise<{ comments: Comment[]; thread?: ThreadMetadata }> => {
+    try {
+      const params = new URLSearchParams({ url: discussion.url })
+      
+      // Without a platform the API handler detects it from the URL
+      if (discussion.platform) {
+        params.append('platform', discussion.platform)
+      }
+      
+      if (discussion.id) {
+        params.append('id', discussion.id)
+      }
       
       if (fetchOptions.cacheTimeout) {
         params.append('cacheTimeout', fetchOptions.cacheTimeout.toString())
       }
       
-      const response = await fetch(`${apiEndpoint}?${params}`)
-      if (!response.ok) throw new Error(`Failed to fetch ${discussion.platform} comments`)
+      const response = await fetchImpl(`${apiEndpoint}?${params}`, { signal })
+      if (!response.ok) {
+        // The API handlers describe failures as { error, code }
+        const body = await response.json().catch(() => ({}))
+        throw new DiscussionFetchError(
+          body.code ?? 'UPSTREAM_ERROR',
+          body.error ?? `Failed to fetch comments for ${discussion.url}`,
+          response.status
+        )
+      }
       
       const data = await response.json()
-      return data.comments || []
+      return { comments: data.comments || [], thread: data.thread }
     } catch (error) {
-      console.error(`Error fetching comments from ${discussion.platform}:`, error)
+      if (!signal.aborted) {
+        console.error(`Error fetching comments from ${discussion.platform ?? discussion.url}:`, error)
+      }
       throw error
     }
-  }, [apiEndpoint, fetchOptions.cacheTimeout])
+  }, [apiEndpoint, fetchImpl, fetchOptions.cacheTimeout])
 
   const fetchAllComments = useCallback(async () => {
+    // A new round supersedes any requests still in flight
+    inFlight.current?.abort()
+    const controller = new AbortController()
+    inFlight.current = controller
+    const { signal } = controller
+
     const loadingState: Record<string, boolean> = {}
     const errorState: Record<string, string> = {}
     
     discussions.forEach(d => {
-      loadingState[d.platform] = true
-      errorState[d.platform] = ''
+      loadingState[getDiscussionKey(d)] = true
+      errorState[getDiscussionKey(d)] = ''
     })
     
     setLoading(loadingState)
     setError(errorState)
 
     const commentsData: Record<string, Comment[]> = {}
+    const threadsData: Record<string, ThreadMetadata> = {}
     
     for (const discussion of discussions) {
+      const key = getDiscussionKey(discussion)
       try {
-        const platformComments = await fetchCommentsForPlatform(discussion)
-        commentsData[discussion.platform] = platformComments
+        const { comments, thread } = await fetchThread(discussion, signal)
+        commentsData[key] = comments
+        if (thread) threadsData[key] = thread
       } catch (err) {
-        console.error(`Failed to fetch comments from ${discussion.platform}:`, err)
-        commentsData[discussion.platform] = []
-        errorState[discussion.platform] = err instanceof Error ? err.message : 'Unknown error'
+        // Results for discussions that are no longer shown are dropped
+        if (signal.aborted) return
+        console.error(`Failed to fetch comments from ${discussion.platform ?? discussion.url}:`, err)
+        commentsData[key] = []
+        errorState[key] = describeFetchError(
+          err instanceof DiscussionFetchError ? err.code : 'UPSTREAM_ERROR',
+          resolvePlatform(discussion)?.name ?? discussion.platform ?? discussion.url
+        )
       }
       
-      // Update loading state for this platform
-      setLoading(prev => ({ ...prev, [discussion.platform]: false }))
+      // Update loading state for this discussion
+      setLoading(prev => ({ ...prev, [key]: false }))
     }
 
-    setCommentsByPlatform(commentsData)
+    if (signal.aborted) return
+
+    setCommentsByDiscussion(commentsData)
+    setThreadsByDiscussion(threadsData)
     setError(errorState)
-  }, [discussions, fetchCommentsForPlatform])
+  }, [discussions, fetchThread])
 
   const refreshComments = useCallback(() => {
     fetchAllComments()
@@ -111,6 +176,9 @@ export default function Discussion({
     if (discussions.length > 0) {
       fetchAllComments()
     }
+
+    // Abort in-flight requests when the discussions change or the component unmounts
+    return () => inFlight.current?.abort()
   }, [discussions, fetchAllComments])
 
   // Auto-refresh functionality
@@ -124,19 +192,6 @@ export default function Discussion({
     return () => clearInterval(interval)
   }, [enableRefresh, refreshInterval, refreshComments])
 
-  const getPlatformName = (platform: string) => {
-    switch (platform) {
-      case 'v2ex':
-        return 'V2EX'
-      case 'reddit':
-        return 'Reddit'  
-      case 'hackernews':
-        return 'Hacker News'
-      default:
-        return platform
-    }
-  }
-
   if (discussions.length === 0) {
     return null
   }
@@ -145,12 +200,16 @@ export default function Discussion({
     <div className={`mt-16 ${className}`}>
       <div className="space-y-14">
         {discussions.map((discussion) => {
-          const platformComments = commentsByPlatform[discussion.platform] || []
-          const isLoading = loading[discussion.platform]
-          const hasError = error[discussion.platform]
+          const key = getDiscussionKey(discussion)
+          const platformComments = commentsByDiscussion[key] || []
+          const thread = threadsByDiscussion[key]
+          const stats = thread ? formatThreadStats(thread) : ''
+          const isLoading = loading[key]
+          const hasError = error[key]
+          const adapter = resolvePlatform(discussion)
 
           return (
-            <section key={`${discussion.platform}-${discussion.url}`}>
+            <section key={key}>
               {/* Section divider with platform name */}
               <div className="flex items-center gap-4 mb-10">
                 <div className="flex-1 border-t border-gray-200 dark:border-gray-700/70"></div>
@@ -159,14 +218,24 @@ export default function Discussion({
                     href={discussion.url}
                     target="_blank"
                     rel="noopener noreferrer"
+                    title={thread?.title}
                     className="group inline-flex items-center gap-1.5 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
                     style={{ textDecoration: 'none' }}
                   >
                     <span>Discussing on</span>
+                    {adapter?.icon && (
+                      <img src={adapter.icon} alt="" width={14} height={14} className="w-3.5 h-3.5 rounded-sm" />
+                    )}
                     <span className="font-semibold text-gray-600 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-gray-100">
-                      {getPlatformName(discussion.platform)}
+                      {adapter?.name ?? discussion.platform ?? discussion.url}
                     </span>
                   </a>
+                  {stats && (
+                    <>
+                      <span className="text-gray-300 dark:text-gray-600">·</span>
+                      <span className="normal-case tracking-normal tabular-nums">{stats}</span>
+                    </>
+                  )}
                   {isLoading && (
                     <>
                       <span className="text-gray-300 dark:text-gray-600">·</span>
@@ -191,7 +260,7 @@ export default function Discussion({
               {hasError && (
                 <div className="text-center py-4">
                   <div className="text-sm text-red-600 dark:text-red-400 mb-2">
-                    Failed to load comments: {hasError}
+                    {hasError}
                   </div>
                   <button
                     onClick={refreshComments}
@@ -316,7 +385,7 @@ function CommentItem({
           )}
         </div>
         <div className="text-[0.9375rem] leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
-          {renderCommentContent(comment.content)}
+          {renderCommentContent(comment.richContent ?? comment.content, getCommentFormat(comment), getPlatform(comment.platform)?.contentBaseUrl)}
         </div>
 
         {comment.replies && comment.replies.length > 0 && (
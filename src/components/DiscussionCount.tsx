@@ -0,0 +1,68 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { getDiscussionKey } from '../utils/fetch-comments'
+import CountBadge from './CountBadge'
+import type { ExternalDiscussion, FetchOptions } from '../types'
+
+interface DiscussionCountProps {
+  discussions: ExternalDiscussion[]
+  className?: string
+  fetchOptions?: FetchOptions
+  /** API endpoint for fetching comments (default: '/api/external-comments') */
+  apiEndpoint?: string
+}
+
+/**
+ * Client-side comment-count badge for list views. Asks the API endpoint for
+ * counts only (`?count=1`), so whole threads are never downloaded.
+ */
+export default function DiscussionCount({
+  discussions,
+  className = '',
+  fetchOptions = {},
+  apiEndpoint = '/api/external-comments'
+}: DiscussionCountProps) {
+  const [counts, setCounts] = useState<Record<string, number | null>>({})
+  const fetchImpl = fetchOptions.fetch ?? fetch
+
+  useEffect(() => {
+    if (discussions.length === 0) return
+
+    const controller = new AbortController()
+
+    const fetchCount = async (discussion: ExternalDiscussion): Promise<number | null> => {
+      const params = new URLSearchParams({ url: discussion.url, count: '1' })
+      if (discussion.platform) {
+        params.append('platform', discussion.platform)
+      }
+      if (fetchOptions.cacheTimeout) {
+        params.append('cacheTimeout', fetchOptions.cacheTimeout.toString())
+      }
+
+      try {
+        const response = await fetchImpl(`${apiEndpoint}?${params}`, { signal: controller.signal })
+        if (!response.ok) return null
+        const data = await response.json()
+        return typeof data.count === 'number' ? data.count : null
+      } catch (error) {
+        if (controller.signal.aborted) return null
+        console.error(`Error fetching comment count from ${discussion.platform ?? discussion.url}:`, error)
+        return null
+      }
+    }
+
+    Promise.all(discussions.map(fetchCount)).then((results) => {
+      if (controller.signal.aborted) return
+      const countsByDiscussion: Record<string, number | null> = {}
+      results.forEach((count, index) => {
+        countsByDiscussion[getDiscussionKey(discussions[index])] = count
+      })
+      setCounts(countsByDiscussion)
+    })
+
+    return () => controller.abort()
+  }, [discussions, apiEndpoint, fetchImpl, fetchOptions.cacheTimeout])
+
+  return <CountBadge discussions={discussions} counts={counts} className={className} />
+}
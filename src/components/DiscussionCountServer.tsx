@@ -0,0 +1,28 @@
+import React from 'react'
+import { fetchCommentCounts } from '../utils/fetch-comments'
+import CountBadge from './CountBadge'
+import type { ExternalDiscussion, FetchOptions } from '../types'
+
+interface DiscussionCountServerProps {
+  discussions: ExternalDiscussion[]
+  className?: string
+  fetchOptions?: FetchOptions
+}
+
+/**
+ * React Server Component rendering a compact comment-count badge per thread,
+ * e.g. for blog index pages. Only counts are fetched, never the comment trees.
+ */
+export default async function DiscussionCountServer({
+  discussions,
+  className = '',
+  fetchOptions = {}
+}: DiscussionCountServerProps) {
+  if (discussions.length === 0) {
+    return null
+  }
+
+  const counts = await fetchCommentCounts(discussions, fetchOptions)
+
+  return <CountBadge discussions={discussions} counts={counts} className={className} />
+}
@@ -1,6 +1,7 @@
 import React from 'react'
-import { fetchAllExternalComments } from '../utils/fetch-comments'
-import { formatRelativeTime, renderCommentContent } from '../utils/comment-format'
+import { fetchAllThreadResults, getCommentFormat, getDiscussionKey, getPlatform, resolvePlatform } from '../utils/fetch-comments'
+import { discoverDiscussions } from '../utils/discover'
+import { describeFetchError, formatRelativeTime, formatThreadStats, renderCommentContent } from '../utils/comment-format'
 import type { ExternalDiscussion, Comment, FetchOptions } from '../types'
 
 /** Top-level comments shown before the rest collapse behind a "show more" disclosure. */
@@ -8,6 +9,8 @@ const VISIBLE_COMMENTS = 8
 
 interface DiscussionServerProps {
   discussions?: ExternalDiscussion[]
+  /** Article URL used to discover Hacker News and Reddit threads when no discussions are given */
+  canonicalUrl?: string
   className?: string
   fetchOptions?: FetchOptions
   /** Custom Image component for avatar rendering (e.g., Next.js Image) */
@@ -29,58 +32,72 @@ interface DiscussionServerProps {
  * - You're using Next.js with App Router
  */
 export default async function DiscussionServer({ 
-  discussions = [], 
+  discussions: explicitDiscussions = [], 
+  canonicalUrl,
   className = '',
   fetchOptions = {},
   ImageComponent
 }: DiscussionServerProps) {
+  const discussions = explicitDiscussions.length === 0 && canonicalUrl
+    ? await discoverDiscussions(canonicalUrl, fetchOptions)
+    : explicitDiscussions
+
   if (discussions.length === 0) {
     return null
   }
 
-  // Fetch all comments on the server
-  const commentsByPlatform = await fetchAllExternalComments(discussions, fetchOptions)
-
-  const getPlatformName = (platform: string) => {
-    switch (platform) {
-      case 'v2ex':
-        return 'V2EX'
-      case 'reddit':
-        return 'Reddit'  
-      case 'hackernews':
-        return 'Hacker News'
-      default:
-        return platform
-    }
-  }
+  // Fetch all threads on the server
+  const resultsByDiscussion = await fetchAllThreadResults(discussions, fetchOptions)
 
   return (
     <div className={`mt-16 ${className}`}>
       <div className="space-y-14">
         {discussions.map((discussion) => {
-          const platformComments = commentsByPlatform[discussion.platform] || []
+          const key = getDiscussionKey(discussion)
+          const result = resultsByDiscussion[key]
+          const thread = result?.ok ? result.data : undefined
+          const platformComments = thread?.comments ?? []
+          const stats = thread ? formatThreadStats(thread) : ''
+          const adapter = resolvePlatform(discussion)
+          const platformName = adapter?.name ?? discussion.platform ?? discussion.url
 
           return (
-            <section key={`${discussion.platform}-${discussion.url}`}>
+            <section key={key}>
               {/* Section divider with platform name */}
               <div className="flex items-center gap-4 mb-10">
                 <div className="flex-1 border-t border-gray-200 dark:border-gray-700/70"></div>
-                <a
-                  href={discussion.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="group inline-flex items-center gap-1.5 text-xs uppercase tracking-[0.12em] text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-                  style={{ textDecoration: 'none' }}
-                >
-                  <span>Discussing on</span>
-                  <span className="font-semibold text-gray-600 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-gray-100">
-                    {getPlatformName(discussion.platform)}
-                  </span>
-                </a>
+                <div className="inline-flex items-center gap-1.5 text-xs uppercase tracking-[0.12em] text-gray-400 dark:text-gray-500">
+                  <a
+                    href={discussion.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={thread?.title}
+                    className="group inline-flex items-center gap-1.5 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                    style={{ textDecoration: 'none' }}
+                  >
+                    <span>Discussing on</span>
+                    {adapter?.icon && (
+                      <img src={adapter.icon} alt="" width={14} height={14} className="w-3.5 h-3.5 rounded-sm" />
+                    )}
+                    <span className="font-semibold text-gray-600 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-gray-100">
+                      {platformName}
+                    </span>
+                  </a>
+                  {stats && (
+                    <>
+                      <span className="text-gray-300 dark:text-gray-600">·</span>
+                      <span className="normal-case tracking-normal tabular-nums">{stats}</span>
+                    </>
+                  )}
+                </div>
                 <div className="flex-1 border-t border-gray-200 dark:border-gray-700/70"></div>
               </div>
 
-              {platformComments.length > 0 ? (
+              {result && !result.ok ? (
+                <p className="text-sm text-red-600 dark:text-red-400 text-center py-2">
+                  {describeFetchError(result.error.code, platformName)}
+                </p>
+              ) : platformComments.length > 0 ? (
                 <>
                   <div className="space-y-7">
                     {platformComments.slice(0, VISIBLE_COMMENTS).map((comment) => (
@@ -180,7 +197,7 @@ function CommentItem({
           )}
         </div>
         <div className="text-[0.9375rem] leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
-          {renderCommentContent(comment.content)}
+          {renderCommentContent(comment.richContent ?? comment.content, getCommentFormat(comment), getPlatform(comment.platform)?.contentBaseUrl)}
         </div>
 
         {comment.replies && comment.replies.length > 0 && (
@@ -1,6 +1,8 @@
 // Main exports for the discussing package
 export { default as Discussion } from './components/Discussion'
 export { default as DiscussionServer } from './components/DiscussionServer'
+export { default as DiscussionCount } from './components/DiscussionCount'
+export { default as DiscussionCountServer } from './components/DiscussionCountServer'
 
 // Legacy exports for backward compatibility
 export { default as ExternalComments } from './components/Discussion'
@@ -10,10 +12,35 @@ export { default as ExternalCommentsServer } from './components/DiscussionServer
 export { 
   fetchCommentsForPlatform, 
   fetchAllExternalComments,
+  fetchCommentsResult,
+  fetchAllCommentsResults,
+  fetchThreadResult,
+  fetchAllThreadResults,
+  fetchCommentCountResult,
+  fetchCommentCounts,
+  DiscussionFetchError,
+  getDiscussionKey,
   fetchV2exComments,
   fetchRedditComments,
-  fetchHackerNewsComments
+  fetchHackerNewsComments,
+  fetchLobstersComments,
+  fetchGitHubComments,
+  fetchMastodonComments,
+  fetchBlueskyComments,
+  fetchDiscourseComments,
+  fetchLemmyComments,
+  registerPlatform,
+  unregisterPlatform,
+  getPlatform,
+  getRegisteredPlatforms,
+  detectPlatform,
+  resolvePlatform,
+  getCommentFormat
 } from './utils/fetch-comments'
+export { discoverDiscussions } from './utils/discover'
+export { createMemoryCache } from './utils/cache'
+export { htmlToRichContent, richContentToText } from './utils/rich-content'
+export { markdownToRichContent } from './utils/markdown'
 
 // API route handlers for Next.js (optional - only needed if using client-side Discussion component)
 export { GET as discussionRouteHandler, createCommentHandler } from './api/route-handler'
@@ -22,6 +49,22 @@ export { default as discussionPagesHandler } from './api/pages-handler'
 // Type definitions
 export type { 
   Comment, 
+  CommentFormat,
+  RichContent,
+  RichBlock,
+  RichInline,
+  DiscussionThread,
   ExternalDiscussion, 
-  FetchOptions 
+  FetchOptions,
+  DiscoverOptions,
+  CacheStore,
+  CacheEntry,
+  RetryOptions,
+  HostLimit,
+  RedditCredentials,
+  BuiltinPlatform,
+  PlatformAdapter,
+  FetchError,
+  FetchErrorCode,
+  FetchResult
 } from './types'
\ No newline at end of file
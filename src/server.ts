@@ -0,0 +1,2 @@
+// Server-only exports, which depend on Node.js built-ins and can't be bundled for the browser
+export { createFileCache } from './utils/file-cache'
@@ -1,7 +1,15 @@
 export interface Comment {
   id: string
   author: string
+  /** Text of the comment, written in `format` */
   content: string
+  /** Syntax of `content` (default: the platform's `contentFormat`, else plain text) */
+  format?: CommentFormat
+  /**
+   * Sanitized structure of comments the platform serves as HTML, when it has
+   * paragraphs, links, emphasis or code worth rendering over `content`
+   */
+  richContent?: RichContent
   timestamp: string
   replies?: Comment[]
   votes?: number
@@ -9,14 +17,248 @@ export interface Comment {
   avatar?: string
 }
 
+/** How a comment's `content` is written: plain text, or Markdown rendered to rich content. */
+export type CommentFormat = 'text' | 'markdown'
+
+/** Inline run of rich comment content. Link targets are always http(s) or mailto URLs. */
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; children: RichInline[] }
+  | { type: 'strong'; children: RichInline[] }
+  | { type: 'strikethrough'; children: RichInline[] }
+  /** Hidden until the reader reveals it */
+  | { type: 'spoiler'; children: RichInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: RichInline[] }
+  | { type: 'break' }
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'heading'; level: number; children: RichInline[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'quote'; children: RichBlock[] }
+  | { type: 'list'; ordered: boolean; start?: number; items: RichBlock[][] }
+  | { type: 'table'; align: ('left' | 'center' | 'right' | null)[]; header: RichInline[][]; rows: RichInline[][][] }
+  | { type: 'rule' }
+
+/** Comment content as a list of blocks, safe to render without further escaping. */
+export type RichContent = RichBlock[]
+
+/** A thread's own metadata along with its comments. */
+export interface DiscussionThread {
+  platform: string
+  /** Thread URL on the platform */
+  permalink: string
+  title?: string
+  /** Points or upvotes on the submission itself */
+  score?: number
+  /** Total comments reported by the platform, which may exceed those fetched */
+  commentCount?: number
+  /** Username of the submitter */
+  author?: string
+  /** ISO 8601 submission time */
+  createdAt?: string
+  comments: Comment[]
+}
+
+/** Platforms that ship with the package. Custom ones can be added with `registerPlatform()`. */
+export type BuiltinPlatform = 'v2ex' | 'reddit' | 'hackernews' | 'lobsters' | 'github' | 'mastodon' | 'bluesky' | 'discourse' | 'lemmy'
+
 export interface ExternalDiscussion {
-  platform: 'v2ex' | 'reddit' | 'hackernews'
+  /**
+   * Platform hosting the thread (default: detected from the URL).
+   * `string & {}` keeps editor autocompletion for the built-in ids.
+   */
+  platform?: BuiltinPlatform | (string & {})
   url: string
+  /** Stable identifier for this thread (default: the URL) */
+  id?: string
+}
+
+/** A cached value and when it was stored (milliseconds since the epoch). */
+export interface CacheEntry<T = unknown> {
+  value: T
+  storedAt: number
+}
+
+/**
+ * Server-side store for fetched threads. `createMemoryCache()` and
+ * `createFileCache()` (from `discussing/server`) are built in; anything
+ * with these methods works, e.g. a Redis-backed store.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined
+  set(key: string, entry: CacheEntry): Promise<void> | void
+  delete(key: string): Promise<void> | void
+}
+
+/** How failed upstream requests are retried. */
+export interface RetryOptions {
+  /** Total attempts, the first one included (default: 3) */
+  maxAttempts?: number
+  /** Wait before the first retry in milliseconds, doubled for each one after (default: 500) */
+  baseDelayMs?: number
+  /** Longest wait between attempts; a longer `Retry-After` ends the retries (default: 30000) */
+  maxDelayMs?: number
+  /** Randomize each wait between 0 and its backoff so clients don't retry in lockstep (default: true) */
+  jitter?: boolean
+  /** HTTP statuses worth retrying; network errors are always retried (default: 408, 429, 500, 502, 503, 504) */
+  retryOn?: number[]
+}
+
+/** Limits on requests to one host, enforced across every call in the process. */
+export interface HostLimit {
+  /** Requests to the host in flight at once */
+  concurrency?: number
+  /**
+   * Requests started in any 60-second window; further ones wait their turn,
+   * failing as `RATE_LIMITED` if still waiting after `timeoutMs`
+   */
+  requestsPerMinute?: number
 }
 
 export interface FetchOptions {
   /** Cache timeout in seconds (default: 300) */
   cacheTimeout?: number
+  /** Store that fetched threads are cached in between calls (default: none) */
+  cache?: CacheStore
+  /**
+   * Seconds past `cacheTimeout` during which a stale entry is still served
+   * while it is refreshed in the background (default: 86400)
+   */
+  staleWhileRevalidate?: number
   /** Custom User-Agent string */
   userAgent?: string
-}
\ No newline at end of file
+  /** Extra headers sent to every platform; they can override the User-Agent */
+  headers?: Record<string, string>
+  /** Extra headers per platform id, applied over `headers` */
+  platformHeaders?: Partial<Record<BuiltinPlatform | (string & {}), Record<string, string>>>
+  /**
+   * `fetch` implementation used for every upstream request (default: the global `fetch`),
+   * e.g. one routed through a proxy or recording responses
+   */
+  fetch?: typeof fetch
+  /**
+   * Maximum extra requests spent expanding Reddit "load more comments" stubs
+   * (default: 0, which leaves them unexpanded)
+   */
+  redditMoreRequests?: number
+  /**
+   * Retry network failures and 408/429/5xx responses, honoring `Retry-After`.
+   * `true` uses the default policy (default: false, a single attempt)
+   */
+  retry?: boolean | RetryOptions
+  /** Abort each upstream request that gets no response within this many milliseconds; 0 disables it (default: 10000) */
+  timeoutMs?: number
+  /** Abort every upstream request, including pending retries, when this signal aborts */
+  signal?: AbortSignal
+  /**
+   * Per-host limits keyed by hostname, covering subdomains. Merged over the
+   * built-in limits, including those `platformQuotas` turns on
+   */
+  hostLimits?: Record<string, HostLimit>
+  /**
+   * Hold requests to Reddit and V2EX to their unauthenticated quotas: 2 concurrent
+   * requests and 10 a minute to reddit.com (100 with `redditCredentials`), and 1
+   * concurrent request and 2 a minute to v2ex.com (10 with `v2exToken`) (default: false)
+   */
+  platformQuotas?: boolean
+  /**
+   * Where Hacker News threads are read from: the Algolia search API, the official
+   * Firebase API, or Algolia with the official API as a fallback (default: 'algolia')
+   */
+  hackerNewsSource?: 'auto' | 'algolia' | 'firebase'
+  /** GitHub token; raises the REST rate limit and is required for GitHub Discussions */
+  githubToken?: string
+  /**
+   * V2EX personal access token. With it, replies are paged through the V2EX
+   * API 2.0 instead of the legacy endpoint, which is throttled more heavily
+   */
+  v2exToken?: string
+  /**
+   * Nest V2EX replies under the reply they answer, resolved from `@username #floor`
+   * mentions, instead of listing them flat (default: false)
+   */
+  v2exThreading?: boolean
+  /**
+   * Reddit app credentials. With them, Reddit is read through oauth.reddit.com
+   * with an application-only token instead of the public JSON endpoints
+   */
+  redditCredentials?: RedditCredentials
+}
+
+/** Client id and secret of a Reddit app, from https://www.reddit.com/prefs/apps */
+export interface RedditCredentials {
+  clientId: string
+  clientSecret: string
+}
+
+export interface DiscoverOptions extends FetchOptions {
+  /** Maximum number of discussions to return (default: 5) */
+  limit?: number
+  /** Skip threads with fewer comments than this (default: 1) */
+  minComments?: number
+}
+
+/** Why fetching a discussion failed. */
+export type FetchErrorCode =
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_PLATFORM'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'UNAUTHORIZED'
+  | 'UPSTREAM_ERROR'
+  | 'TIMEOUT'
+  | 'PARSE_ERROR'
+
+export interface FetchError {
+  code: FetchErrorCode
+  message: string
+  /** HTTP status returned by the upstream platform, if any */
+  status?: number
+}
+
+export type FetchResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: FetchError }
+
+/**
+ * Describes how to fetch and present comments for one discussion platform.
+ * Register custom adapters with `registerPlatform()`.
+ */
+export interface PlatformAdapter {
+  /** Unique identifier used in `ExternalDiscussion.platform` */
+  id: string
+  /** Human-readable name shown in the "Discussing on" header */
+  name: string
+  /** Optional icon URL rendered next to the platform name */
+  icon?: string
+  /** Syntax of the `content` of this platform's comments (default: 'text') */
+  contentFormat?: CommentFormat
+  /** Base URL that relative links in Markdown `content` resolve against; without it they're kept as text */
+  contentBaseUrl?: string
+  /**
+   * Whether threads live on any host their URL names, like Mastodon instances.
+   * The API handlers only serve such platforms when `allowedPlatforms` lists them
+   */
+  anyHost?: boolean
+  /** Whether a thread URL belongs to this platform */
+  matchUrl: (url: string) => boolean
+  /** Rewrite variant URLs (mobile hosts, short links, fragments) to one canonical thread URL */
+  canonicalizeUrl?: (url: string) => string
+  /**
+   * Fetch comments for a thread URL. Throw a `DiscussionFetchError` to report
+   * a specific failure; any other error is reported as `UPSTREAM_ERROR`.
+   */
+  fetchComments: (url: string, options: FetchOptions) => Promise<Comment[]>
+  /**
+   * Fetch the thread's metadata along with its comments. Adapters without it
+   * get a thread built from `fetchComments()`.
+   */
+  fetchThread?: (url: string, options: FetchOptions) => Promise<DiscussionThread>
+  /**
+   * Fetch only the thread's comment count, ideally from an endpoint cheaper than
+   * the full thread. Adapters without it fall back to `fetchThread()` or `fetchComments()`.
+   */
+  fetchCommentCount?: (url: string, options: FetchOptions) => Promise<number>
+}
@@ -0,0 +1,90 @@
+import type { CacheEntry, CacheStore, FetchOptions } from '../types'
+
+/** Seconds a cached thread is fresh when `cacheTimeout` isn't set. */
+export const DEFAULT_CACHE_TIMEOUT = 300
+
+/** Seconds a stale thread may still be served while it's refreshed. */
+export const DEFAULT_STALE_WHILE_REVALIDATE = 86400
+
+/**
+ * In-memory store that evicts the least recently used entry once it holds
+ * `maxEntries`. Entries live as long as the process.
+ */
+export function createMemoryCache({ maxEntries = 500 }: { maxEntries?: number } = {}): CacheStore {
+  // Map iteration follows insertion order, so re-inserting on read keeps the oldest entry first
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (entry) {
+        entries.delete(key)
+        entries.set(key, entry)
+      }
+      return entry
+    },
+    set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+    delete(key) {
+      entries.delete(key)
+    }
+  }
+}
+
+/** Keys with a background refresh in flight, so a stale entry is refreshed once. */
+const refreshing = new Set<string>()
+
+async function store<T>(cache: CacheStore, key: string, value: T): Promise<void> {
+  try {
+    await cache.set(key, { value, storedAt: Date.now() })
+  } catch (error) {
+    console.warn(`Failed to write cache entry ${key}:`, error)
+  }
+}
+
+/**
+ * Serve `key` from `options.cache`: fresh entries are returned as is, stale
+ * ones within the stale-while-revalidate window are returned while `load`
+ * refreshes them in the background, and anything older is loaded first.
+ * Only successful loads are cached. Without a cache, or with a
+ * `cacheTimeout` of 0, this just calls `load`.
+ */
+export async function withCache<T>(key: string, options: FetchOptions, load: () => Promise<T>): Promise<T> {
+  const { cache, cacheTimeout = DEFAULT_CACHE_TIMEOUT, staleWhileRevalidate = DEFAULT_STALE_WHILE_REVALIDATE } = options
+  if (!cache || cacheTimeout <= 0) return load()
+
+  let entry: CacheEntry | undefined
+  try {
+    entry = await cache.get(key)
+  } catch (error) {
+    console.warn(`Failed to read cache entry ${key}:`, error)
+  }
+
+  if (entry) {
+    const age = Date.now() - entry.storedAt
+
+    if (age < cacheTimeout * 1000) {
+      return entry.value as T
+    }
+
+    if (age < (cacheTimeout + staleWhileRevalidate) * 1000) {
+      if (!refreshing.has(key)) {
+        refreshing.add(key)
+        load()
+          .then((value) => store(cache, key, value))
+          .catch((error) => console.warn(`Failed to refresh cache entry ${key}:`, error))
+          .finally(() => refreshing.delete(key))
+      }
+      return entry.value as T
+    }
+  }
+
+  const value = await load()
+  await store(cache, key, value)
+  return value
+}
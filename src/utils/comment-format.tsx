@@ -1,4 +1,7 @@
 import React from 'react'
+import type { CommentFormat, DiscussionThread, FetchErrorCode, RichBlock, RichContent, RichInline } from '../types'
+import { markdownToRichContent } from './markdown'
+import { MENTION_PATTERN } from './mentions'
 
 /**
  * Format a timestamp as a compact relative label (e.g. "3 days ago"),
@@ -37,23 +40,76 @@ export function formatRelativeTime(timestamp: string): { label: string; title: s
   return { label: plural(years, 'year'), title }
 }
 
+/**
+ * Header line summarizing a thread, e.g. "142 points · 87 comments".
+ * Empty when the platform reported neither number.
+ */
+export function formatThreadStats(thread: Pick<DiscussionThread, 'score' | 'commentCount'>): string {
+  const parts: string[] = []
+  if (thread.score !== undefined) {
+    parts.push(`${thread.score} ${thread.score === 1 ? 'point' : 'points'}`)
+  }
+  if (thread.commentCount !== undefined) {
+    parts.push(`${thread.commentCount} ${thread.commentCount === 1 ? 'comment' : 'comments'}`)
+  }
+  return parts.join(' · ')
+}
+
+/**
+ * Reader-facing explanation of why a discussion's comments couldn't be loaded.
+ */
+export function describeFetchError(code: FetchErrorCode, platformName: string): string {
+  switch (code) {
+    case 'INVALID_URL':
+      return `This ${platformName} link doesn't point to a discussion thread.`
+    case 'UNSUPPORTED_PLATFORM':
+      return `Comments from ${platformName} aren't supported.`
+    case 'NOT_FOUND':
+      return `This ${platformName} thread no longer exists.`
+    case 'RATE_LIMITED':
+      return `${platformName} is rate limiting requests. Try again in a few minutes.`
+    case 'UNAUTHORIZED':
+      return `${platformName} refused to share these comments.`
+    case 'TIMEOUT':
+      return `${platformName} took too long to respond.`
+    case 'PARSE_ERROR':
+      return `${platformName} sent a response that couldn't be read.`
+    case 'UPSTREAM_ERROR':
+    default:
+      return `${platformName} couldn't be reached right now.`
+  }
+}
+
+const linkClassName = 'text-blue-600 dark:text-blue-400 hover:underline break-all'
+
 /**
  * Normalize comment whitespace, then render it as React nodes with
  * `@mentions` styled as subtle reply tokens and bare URLs turned into links.
+ * Rich content (`Comment.richContent`), and text in the `markdown` format,
+ * render as paragraphs, lists, quotes, tables, links, emphasis and code instead;
+ * relative Markdown links resolve against `baseUrl`.
  *
  * The returned text segments preserve newlines, so the host element should
  * still use `whitespace-pre-wrap`.
  */
-export function renderCommentContent(raw: string): React.ReactNode[] {
+export function renderCommentContent(content: string | RichContent, format: CommentFormat = 'text', baseUrl?: string): React.ReactNode[] {
+  if (typeof content !== 'string') return renderRichBlocks(content)
+  if (format === 'markdown') return renderRichBlocks(markdownToRichContent(content, baseUrl))
+
   // Normalize whitespace.
-  let text = raw.replace(/\r\n/g, '\n').trim()
+  let text = content.replace(/\r\n/g, '\n').trim()
   // Collapse 3+ blank lines down to a single blank line.
   text = text.replace(/\n{3,}/g, '\n\n')
   // Drop the dead gap between leading @mentions and the reply body.
-  text = text.replace(/^((?:@[A-Za-z0-9_-]+[ \t]*)+)\n\s*\n/, '$1\n')
+  text = text.replace(new RegExp(`^((?:${MENTION_PATTERN.source}[ \\t]*)+)\\n\\s*\\n`), '$1\n')
+
+  return linkifyText(text)
+}
 
+/** Split text into plain segments, links for bare URLs, and styled `@mentions`. */
+function linkifyText(text: string): React.ReactNode[] {
   const nodes: React.ReactNode[] = []
-  const pattern = /(https?:\/\/[^\s]+)|(@[A-Za-z0-9_-]+)/g
+  const pattern = new RegExp(`(https?:\\/\\/[^\\s]+)|(${MENTION_PATTERN.source})`, 'g')
   let lastIndex = 0
   let key = 0
   let match: RegExpExecArray | null
@@ -78,7 +134,7 @@ export function renderCommentContent(raw: string): React.ReactNode[] {
           href={url}
           target="_blank"
           rel="nofollow noopener noreferrer"
-          className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+          className={linkClassName}
         >
           {url}
         </a>
@@ -101,3 +157,118 @@ export function renderCommentContent(raw: string): React.ReactNode[] {
 
   return nodes
 }
+
+function renderRichBlocks(blocks: RichBlock[]): React.ReactNode[] {
+  return blocks.map(renderRichBlock)
+}
+
+function renderRichInlines(nodes: RichInline[], insideLink = false): React.ReactNode[] {
+  return nodes.map((node, index) => renderRichInline(node, index, insideLink))
+}
+
+const headingClassNames = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm']
+
+const alignClassNames = { left: 'text-left', center: 'text-center', right: 'text-right' }
+
+function renderRichBlock(block: RichBlock, index: number): React.ReactNode {
+  switch (block.type) {
+    case 'code':
+      return (
+        <pre key={index} className="my-3 overflow-x-auto rounded bg-gray-100 dark:bg-gray-800 p-3 text-sm">
+          <code>{block.text}</code>
+        </pre>
+      )
+    case 'heading':
+      // Comment headings sit below the page's own, so they are styled rather than made <h1>-<h6>
+      return (
+        <p key={index} role="heading" aria-level={block.level} className={`mb-2 font-semibold ${headingClassNames[block.level - 1] ?? 'text-base'}`}>
+          {renderRichInlines(block.children)}
+        </p>
+      )
+    case 'quote':
+      return (
+        <blockquote key={index} className="my-3 border-l-4 border-gray-200 dark:border-gray-700 pl-3 text-gray-500 dark:text-gray-400">
+          {renderRichBlocks(block.children)}
+        </blockquote>
+      )
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderRichBlocks(item)}</li>)
+      return block.ordered
+        ? <ol key={index} start={block.start} className="my-3 list-decimal pl-6 space-y-1">{items}</ol>
+        : <ul key={index} className="my-3 list-disc pl-6 space-y-1">{items}</ul>
+    }
+    case 'table':
+      return (
+        <div key={index} className="my-3 overflow-x-auto">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} className={`border border-gray-200 dark:border-gray-700 px-2 py-1 font-semibold ${alignClassNames[block.align[column] ?? 'left']}`}>
+                    {renderRichInlines(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} className={`border border-gray-200 dark:border-gray-700 px-2 py-1 ${alignClassNames[block.align[column] ?? 'left']}`}>
+                      {renderRichInlines(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'rule':
+      return <hr key={index} className="my-3 border-gray-200 dark:border-gray-700" />
+    case 'paragraph':
+      return (
+        <p key={index} className="mb-3 last:mb-0">
+          {renderRichInlines(block.children)}
+        </p>
+      )
+  }
+}
+
+function renderRichInline(node: RichInline, index: number, insideLink: boolean): React.ReactNode {
+  switch (node.type) {
+    case 'text':
+      // Mentions and bare URLs get the same treatment as in plain comments, except inside links
+      return <React.Fragment key={index}>{insideLink ? node.text : linkifyText(node.text)}</React.Fragment>
+    case 'break':
+      return <br key={index} />
+    case 'code':
+      return (
+        <code key={index} className="rounded bg-gray-100 dark:bg-gray-800 px-1 text-[0.875em]">
+          {node.text}
+        </code>
+      )
+    case 'emphasis':
+      return <em key={index}>{renderRichInlines(node.children, insideLink)}</em>
+    case 'strong':
+      return <strong key={index}>{renderRichInlines(node.children, insideLink)}</strong>
+    case 'strikethrough':
+      return <del key={index}>{renderRichInlines(node.children, insideLink)}</del>
+    case 'spoiler':
+      // A checkbox toggles the reveal, so spoilers work in server components without client JavaScript
+      return (
+        <label key={index} className="cursor-pointer">
+          <input type="checkbox" className="peer sr-only" aria-label="Reveal spoiler" />
+          <span className="rounded bg-gray-700 dark:bg-gray-300 text-transparent select-none peer-checked:bg-transparent peer-checked:text-inherit peer-checked:select-auto peer-focus-visible:ring-2 transition-colors">
+            {renderRichInlines(node.children, insideLink)}
+          </span>
+        </label>
+      )
+    case 'link':
+      return (
+        <a key={index} href={node.href} target="_blank" rel="nofollow noopener noreferrer" className={linkClassName}>
+          {renderRichInlines(node.children, true)}
+        </a>
+      )
+  }
+}
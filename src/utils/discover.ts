@@ -0,0 +1,105 @@
+import { createFetchOptions, errorForStatus, fetchReddit, fetchUpstream, readJson } from './fetch-comments'
+import type { DiscoverOptions, ExternalDiscussion } from '../types'
+
+interface DiscoveredThread {
+  discussion: ExternalDiscussion
+  comments: number
+  score: number
+}
+
+/**
+ * Reduce a URL to a form that survives the variations platforms store links in:
+ * protocol, `www.`, trailing slashes, fragments and tracking parameters.
+ */
+function normalizeArticleUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim())
+    const params = new URLSearchParams(parsed.search)
+    for (const key of Array.from(params.keys())) {
+      if (key.startsWith('utm_')) params.delete(key)
+    }
+    const query = params.toString()
+    const host = parsed.hostname.replace(/^www\./, '')
+    const path = parsed.pathname.replace(/\/+$/, '')
+    return `${host}${path}${query ? `?${query}` : ''}`.toLowerCase()
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
+
+async function discoverHackerNews(articleUrl: string, options: DiscoverOptions): Promise<DiscoveredThread[]> {
+  const apiUrl = `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(articleUrl)}&restrictSearchableAttributes=url&tags=story`
+
+  const response = await fetchUpstream(apiUrl, options, createFetchOptions(options, 'hackernews'))
+
+  if (!response.ok) throw errorForStatus('Hacker News', response.status)
+
+  const data = await readJson(response, 'Hacker News')
+  const target = normalizeArticleUrl(articleUrl)
+
+  // Algolia matches loosely, so keep only stories that link to exactly this article
+  return (data.hits || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .filter((hit: any) => hit.url && normalizeArticleUrl(hit.url) === target)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((hit: any) => ({
+      discussion: {
+        platform: 'hackernews',
+        url: `https://news.ycombinator.com/item?id=${hit.objectID}`
+      },
+      comments: hit.num_comments ?? 0,
+      score: hit.points ?? 0
+    }))
+}
+
+async function discoverReddit(articleUrl: string, options: DiscoverOptions): Promise<DiscoveredThread[]> {
+  const apiUrl = `https://www.reddit.com/api/info.json?url=${encodeURIComponent(articleUrl)}`
+
+  const response = await fetchReddit(apiUrl, options)
+
+  if (!response.ok) throw errorForStatus('Reddit', response.status)
+
+  const data = await readJson(response, 'Reddit')
+
+  return (data.data?.children || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .filter((child: any) => child.kind === 't3' && child.data?.permalink)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((child: any) => ({
+      discussion: {
+        platform: 'reddit',
+        url: `https://www.reddit.com${child.data.permalink}`
+      },
+      comments: child.data.num_comments ?? 0,
+      score: child.data.score ?? 0
+    }))
+}
+
+/**
+ * Find Hacker News and Reddit threads that link to an article, ranked by how
+ * much discussion they have (comment count, then score). A source that fails
+ * is skipped, so discovery never throws.
+ */
+export async function discoverDiscussions(articleUrl: string, options: DiscoverOptions = {}): Promise<ExternalDiscussion[]> {
+  const { limit = 5, minComments = 1 } = options
+
+  const results = await Promise.allSettled([
+    discoverHackerNews(articleUrl, options),
+    discoverReddit(articleUrl, options)
+  ])
+
+  const threads: DiscoveredThread[] = []
+  results.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      threads.push(...result.value)
+    } else {
+      console.warn('Discussion discovery failed for one source:', result.reason)
+    }
+  })
+
+  return threads
+    .filter((thread) => thread.comments >= minComments)
+    .sort((a, b) => b.comments - a.comments || b.score - a.score)
+    .slice(0, limit)
+    .map((thread) => thread.discussion)
+}
@@ -1,24 +1,107 @@
-import type { Comment, ExternalDiscussion, FetchOptions } from '../types'
-
-function decodeHtmlEntities(text: string): string {
-  // Server-side HTML entity decoding
-  return text
-    .replace(/&#x27;/g, "'")
-    .replace(/&#x2F;/g, "/")
-    .replace(/&quot;/g, '"')
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(dec))
-    .replace(/&#x([0-9a-fA-F]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
-}
-
-function createFetchOptions(options: FetchOptions = {}): RequestInit {
+import type {
+  Comment,
+  CommentFormat,
+  DiscussionThread,
+  ExternalDiscussion,
+  FetchError,
+  FetchErrorCode,
+  FetchOptions,
+  FetchResult,
+  HostLimit,
+  PlatformAdapter,
+  RetryOptions
+} from '../types'
+import { withCache } from './cache'
+import { MENTION_PATTERN } from './mentions'
+import { decodeHtmlEntities, hasRichMarkup, htmlToRichContent, richContentToText } from './rich-content'
+
+/**
+ * Error thrown by platform adapters to report why a discussion couldn't be fetched.
+ */
+export class DiscussionFetchError extends Error implements FetchError {
+  readonly code: FetchErrorCode
+  readonly status?: number
+
+  constructor(code: FetchErrorCode, message: string, status?: number) {
+    super(message)
+    this.name = 'DiscussionFetchError'
+    this.code = code
+    this.status = status
+  }
+}
+
+/**
+ * Plain text of an HTML fragment, along with its rich content when it has
+ * markup worth rendering. Relative links resolve against `baseUrl`.
+ */
+function fromHtml(html: string, baseUrl?: string): Pick<Comment, 'content' | 'richContent'> {
+  const richContent = htmlToRichContent(html, baseUrl)
+  return {
+    content: richContentToText(richContent),
+    ...(hasRichMarkup(richContent) && { richContent })
+  }
+}
+
+/** Whether an IPv4 address is loopback, private, link-local, shared or unspecified. */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168)
+}
+
+/** Whether a URL hostname names this machine or an address on a private network. */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  if (host === 'localhost' || host.endsWith('.localhost')) return true
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isPrivateIPv4(host)
+  if (!host.startsWith('[')) return false
+
+  const ipv6 = host.slice(1, -1)
+  // IPv4-mapped addresses are serialized in hex, e.g. ::ffff:7f00:1 for 127.0.0.1
+  const mapped = ipv6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)]
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  // Unspecified, loopback and IPv4-compatible (::/96), unique local (fc00::/7) and link-local (fe80::/10)
+  return ipv6.startsWith('::') || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6)
+}
+
+/**
+ * Origin of a self-hosted instance (Mastodon, Discourse, Lemmy) to fetch from.
+ * These URLs can come from any visitor through the API handlers, so only https
+ * origins on public hosts are accepted; hostnames are not resolved, so this
+ * guards against literal addresses and localhost only.
+ */
+function publicOrigin(origin: string, platformName: string): string {
+  const parsed = new URL(origin)
+  if (parsed.protocol !== 'https:' || isPrivateHost(parsed.hostname)) {
+    throw new DiscussionFetchError('INVALID_URL', `${platformName} instances must be public https hosts`)
+  }
+  return parsed.origin
+}
+
+/** Number of comments in a tree, replies included. */
+function countComments(comments: Comment[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies || []), 0)
+}
+
+/**
+ * Request options for a platform API. Headers layer the User-Agent, then
+ * `options.headers`, then `options.platformHeaders[platform]`, each
+ * overriding the one before.
+ */
+export function createFetchOptions(options: FetchOptions = {}, platform?: string): RequestInit {
   const { userAgent = 'Mozilla/5.0 (compatible; DiscussingLibrary/1.0; +https://github.com/metrue/discussing)' } = options
   
   const baseOptions: RequestInit = {
     headers: {
       'User-Agent': userAgent,
+      ...options.headers,
+      ...(platform ? options.platformHeaders?.[platform] : undefined),
     },
     redirect: 'follow',
   }
@@ -30,7 +113,7 @@ function createFetchOptions(options: FetchOptions = {}): RequestInit {
       return {
         ...baseOptions,
         // Next.js specific fetch option
-        ...(options.cacheTimeout && { next: { revalidate: options.cacheTimeout } })
+        ...(options.cacheTimeout !== undefined && { next: { revalidate: options.cacheTimeout } })
       } as RequestInit
     } catch {
       // Fallback to standard fetch if Next.js options aren't available
@@ -41,176 +124,1849 @@ function createFetchOptions(options: FetchOptions = {}): RequestInit {
   return baseOptions
 }
 
-export async function fetchV2exComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+/**
+ * Request options for a self-hosted instance named by the discussion URL.
+ * `options.headers` are left out, since they may carry credentials meant for
+ * the well-known platforms, and redirects are refused so a public host can't
+ * bounce the request to a private one.
+ */
+function createInstanceFetchOptions(options: FetchOptions, platform: string): RequestInit {
+  return { ...createFetchOptions({ ...options, headers: undefined }, platform), redirect: 'error' }
+}
+
+export function errorForStatus(platformName: string, status: number): DiscussionFetchError {
+  if (status === 404 || status === 410) {
+    return new DiscussionFetchError('NOT_FOUND', `${platformName} thread not found`, status)
+  }
+  if (status === 429) {
+    return new DiscussionFetchError('RATE_LIMITED', `${platformName} rate limit exceeded`, status)
+  }
+  if (status === 401 || status === 403) {
+    return new DiscussionFetchError('UNAUTHORIZED', `${platformName} refused the request`, status)
+  }
+  return new DiscussionFetchError('UPSTREAM_ERROR', `${platformName} responded with ${status}`, status)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function readJson(response: Response, platformName: string): Promise<any> {
   try {
-    // Extract topic ID from URL
-    const topicId = url.match(/\/t\/(\d+)/)?.[1]
-    if (!topicId) throw new Error('Invalid V2EX URL')
+    return await response.json()
+  } catch {
+    throw new DiscussionFetchError('PARSE_ERROR', `${platformName} returned invalid JSON`)
+  }
+}
 
-    // V2EX API endpoint
-    const apiUrl = `https://www.v2ex.com/api/replies/show.json?topic_id=${topicId}`
-    
-    const response = await fetch(apiUrl, createFetchOptions(options))
-    
-    if (!response.ok) throw new Error('Failed to fetch V2EX comments')
-    
-    const data = await response.json()
-    
-    return data.map((item: {id: number; member?: {username: string; avatar_mini?: string}; content: string; created: number}) => ({
-      id: `v2ex-${item.id}`,
-      author: item.member?.username || 'Anonymous',
-      content: item.content,
-      timestamp: new Date(item.created * 1000).toISOString(),
-      platform: 'v2ex',
-      avatar: item.member?.avatar_mini
-    }))
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504]
+}
+
+/**
+ * Seconds or HTTP date from a `Retry-After` header, as milliseconds to wait.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/** Milliseconds an upstream request may take when `timeoutMs` isn't set. */
+const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * One request, aborted when `options.signal` aborts or once `options.timeoutMs`
+ * pass without a response, counting the `elapsedMs` it already spent queued.
+ * Timeouts are reported as `TIMEOUT`.
+ */
+async function fetchOnce(url: string, init: RequestInit, options: FetchOptions, elapsedMs = 0): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+  const fetchImpl = options.fetch ?? fetch
+  if (!signal && !timeoutMs) return fetchImpl(url, init)
+  if (signal?.aborted) throw signal.reason
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(signal!.reason)
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  let timedOut = false
+  const timer = timeoutMs
+    ? setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, Math.max(timeoutMs - elapsedMs, 1))
+    : undefined
+
+  try {
+    return await fetchImpl(url, { ...init, signal: controller.signal })
   } catch (error) {
-    console.error('Error fetching V2EX comments:', error)
-    return []
+    if (timedOut) throw new DiscussionFetchError('TIMEOUT', `Request to ${new URL(url).host} timed out after ${timeoutMs}ms`)
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
   }
 }
 
-export async function fetchRedditComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
-  try {
-    // Normalize Reddit URL and add .json
-    let normalizedUrl = url.trim()
-    
-    // Handle www subdomain consistently
-    normalizedUrl = normalizedUrl.replace(/\/\/www\.reddit\.com/, '//reddit.com')
-    
-    // Remove trailing slash and add .json
-    const jsonUrl = normalizedUrl.replace(/\/$/, '') + '.json'
-    
-    const response = await fetch(jsonUrl, createFetchOptions(options))
-    
-    if (!response.ok) {
-      console.error(`Reddit API error: ${response.status} ${response.statusText} for URL: ${jsonUrl}`)
-      throw new Error(`Failed to fetch Reddit comments: ${response.status} ${response.statusText}`)
+/** Wait between attempts, cut short when `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
     }
-    
-    const data = await response.json()
-    
-    // Validate Reddit API response structure
-    if (!Array.isArray(data) || data.length < 2) {
-      console.error('Invalid Reddit API response structure:', { url: jsonUrl, dataLength: data?.length })
-      throw new Error('Invalid Reddit API response: expected array with at least 2 elements')
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Limits applied to hosts unless `options.hostLimits` overrides them. Keys
+ * cover their subdomains, so `reddit.com` also limits `www.reddit.com`.
+ * With `platformQuotas`, Reddit and V2EX are held to their published quotas,
+ * which are higher for authenticated requests: Reddit allows 10 a minute
+ * without OAuth and 100 with it, V2EX 120 an hour on its legacy API and 600
+ * with a token.
+ */
+function defaultHostLimits(options: FetchOptions): Record<string, HostLimit> {
+  return {
+    ...(options.platformQuotas && {
+      'reddit.com': { concurrency: 2, requestsPerMinute: options.redditCredentials ? 100 : 10 },
+      'v2ex.com': { concurrency: 1, requestsPerMinute: options.v2exToken ? 10 : 2 }
+    }),
+    // The official Hacker News API serves one item per request, so a thread is walked in parallel
+    'hacker-news.firebaseio.com': { concurrency: 8 }
+  }
+}
+
+interface HostBucket {
+  limit: HostLimit
+  active: number
+  /** Start times of requests within the last minute */
+  starts: number[]
+  queue: Array<{ start: () => void; signal?: AbortSignal }>
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/** Scheduler state per limited host, shared by every call in this process. */
+const hostBuckets = new Map<string, HostBucket>()
+
+/** Start queued requests for as long as the bucket's limits allow. */
+function drainHostBucket(bucket: HostBucket): void {
+  while (bucket.queue.length > 0) {
+    const now = Date.now()
+    bucket.starts = bucket.starts.filter((start) => now - start < 60000)
+
+    if (bucket.limit.concurrency && bucket.active >= bucket.limit.concurrency) return
+
+    if (bucket.limit.requestsPerMinute && bucket.starts.length >= bucket.limit.requestsPerMinute) {
+      // Try again once the oldest request leaves the one-minute window
+      if (!bucket.timer) {
+        bucket.timer = setTimeout(() => {
+          bucket.timer = undefined
+          drainHostBucket(bucket)
+        }, bucket.starts[0] + 60000 - now)
+        // Queued requests time out on their own; the retry alone shouldn't keep the process alive
+        bucket.timer.unref?.()
+      }
+      return
     }
-    
-    if (!data[1]?.data?.children) {
-      console.error('Missing comments data in Reddit API response:', { url: jsonUrl, hasData1: !!data[1], hasData: !!data[1]?.data })
-      return [] // Return empty array for posts without comments
+
+    const next = bucket.queue.shift()!
+    if (next.signal?.aborted) continue
+    bucket.active++
+    bucket.starts.push(now)
+    next.start()
+  }
+}
+
+/**
+ * Wait until the host of `url` may take another request under its
+ * concurrency and requests-per-minute limits. Gives a function that frees
+ * the slot once the request has been answered; it's returned synchronously
+ * when a slot is free, so unthrottled requests start in call order. A
+ * request still queued after `options.timeoutMs` fails as `RATE_LIMITED`.
+ */
+function acquireHostSlot(url: string, options: FetchOptions): (() => void) | Promise<() => void> {
+  const limits = { ...defaultHostLimits(options), ...options.hostLimits }
+  const host = new URL(url).hostname
+  const key = Object.keys(limits).find((candidate) => host === candidate || host.endsWith(`.${candidate}`))
+  if (!key) return () => undefined
+
+  let bucket = hostBuckets.get(key)
+  if (!bucket) {
+    bucket = { limit: limits[key], active: 0, starts: [], queue: [] }
+    hostBuckets.set(key, bucket)
+  }
+  bucket.limit = limits[key]
+  const current = bucket
+
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+  if (signal?.aborted) throw signal.reason
+
+  const release = () => {
+    current.active--
+    drainHostBucket(current)
+  }
+
+  let started = false
+  current.queue.push({ start: () => { started = true }, signal })
+  drainHostBucket(current)
+  if (started) return release
+
+  // Queued behind other requests: swap in a waiter that resolves once started
+  const waiter = current.queue[current.queue.length - 1]
+  return new Promise((resolve, reject) => {
+    const leave = (reason: unknown) => {
+      clearTimeout(deadline)
+      signal?.removeEventListener('abort', onAbort)
+      current.queue = current.queue.filter((queued) => queued !== waiter)
+      reject(reason)
     }
-    
-    const commentsData = data[1].data.children
-    
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parseRedditComments = (items: any[]): Comment[] => {
-      return items
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .filter((item: any) => item.kind === 't1')
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .map((item: any) => ({
-          id: `reddit-${item.data.id}`,
-          author: item.data.author,
-          content: item.data.body,
-          timestamp: new Date(item.data.created_utc * 1000).toISOString(),
-          votes: item.data.score,
-          platform: 'reddit',
-          replies: item.data.replies?.data?.children 
-            ? parseRedditComments(item.data.replies.data.children)
-            : []
-        }))
+    const onAbort = () => leave(signal!.reason)
+    const deadline = timeoutMs
+      ? setTimeout(() => {
+        leave(new DiscussionFetchError('RATE_LIMITED', `Request to ${host} still queued under its host limits after ${timeoutMs}ms`))
+      }, timeoutMs)
+      : undefined
+
+    waiter.start = () => {
+      clearTimeout(deadline)
+      signal?.removeEventListener('abort', onAbort)
+      resolve(release)
     }
-    
-    return parseRedditComments(commentsData)
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Error fetching Reddit comments:', {
-      url,
-      error: errorMessage,
-      timestamp: new Date().toISOString()
-    })
-    return []
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Requests in flight by key, along with the options each was made with, so
+ * concurrent calls for the same thread share one upstream round trip instead
+ * of each starting their own.
+ */
+const inFlightRequests = new Map<string, Array<{ options: FetchOptions; request: Promise<unknown> }>>()
+
+/**
+ * Forget every host's queue and request history, and every request in
+ * flight. Internal, for tests that need a scheduler with no state.
+ */
+export function resetRequestScheduler(): void {
+  hostBuckets.forEach((bucket) => clearTimeout(bucket.timer))
+  hostBuckets.clear()
+  inFlightRequests.clear()
+}
+
+/**
+ * Whether two values are equal, comparing arrays and plain objects such as
+ * `retry` or `headers` by value and anything else, such as `fetch` or
+ * `cache`, by reference.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]))
   }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false
+
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((key) => key in b && sameValue(a[key], b[key]))
 }
 
-export async function fetchHackerNewsComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
-  try {
-    // Extract item ID from HN URL
-    const itemId = url.match(/item\?id=(\d+)/)?.[1]
-    if (!itemId) throw new Error('Invalid Hacker News URL')
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
 
-    const apiUrl = `https://hn.algolia.com/api/v1/items/${itemId}`
-    
-    const response = await fetch(apiUrl, createFetchOptions(options))
-    
-    if (!response.ok) throw new Error('Failed to fetch HN comments')
-    
-    const data = await response.json()
-    
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parseHNComments = (item: any): Comment[] => {
-      const comments: Comment[] = []
-      
-      if (item.children) {
-        for (const child of item.children) {
-          if (child.text) {
-            comments.push({
-              id: `hn-${child.id}`,
-              author: child.author || 'Anonymous',
-              content: decodeHtmlEntities(child.text),
-              timestamp: child.created_at,
-              votes: child.points,
-              platform: 'hackernews',
-              replies: parseHNComments(child)
-            })
-          }
-        }
-      }
-      
-      return comments
+/**
+ * Run `load` once for concurrent calls with the same key and the same
+ * options, since options such as `v2exThreading` or `fetch` change what is
+ * loaded. Calls carrying their own `signal` aren't shared, since aborting
+ * one would fail the others.
+ */
+function coalesce<T>(key: string, options: FetchOptions, load: () => Promise<T>): Promise<T> {
+  if (options.signal) return load()
+
+  const pending = inFlightRequests.get(key) ?? []
+  const shared = pending.find((candidate) => sameValue(candidate.options, options))
+  if (shared) return shared.request as Promise<T>
+
+  const request = load().finally(() => {
+    const remaining = inFlightRequests.get(key)?.filter((candidate) => candidate.request !== request) ?? []
+    if (remaining.length > 0) {
+      inFlightRequests.set(key, remaining)
+    } else {
+      inFlightRequests.delete(key)
     }
-    
-    return parseHNComments(data)
+  })
+  inFlightRequests.set(key, [...pending, { options, request }])
+  return request
+}
+
+/**
+ * Request a platform API through `options.fetch` (default: the global `fetch`),
+ * retrying network failures and retryable statuses according to
+ * `options.retry`. Every platform fetcher goes through here.
+ *
+ * Waits double from `baseDelayMs` with optional full jitter, unless the
+ * response names its own delay in `Retry-After`. A delay over `maxDelayMs`
+ * ends the retries and the last response is returned as is. Timeouts are
+ * retried like network failures; an abort through `options.signal` is not.
+ * Each attempt waits for a slot under the host's limits first, and the wait
+ * counts against `timeoutMs`.
+ */
+export async function fetchUpstream(url: string, options: FetchOptions, init: RequestInit = createFetchOptions(options)): Promise<Response> {
+  const retry = options.retry
+    ? { ...DEFAULT_RETRY, ...(options.retry === true ? {} : options.retry) }
+    : { ...DEFAULT_RETRY, maxAttempts: 1 }
+
+  for (let attempt = 1; ; attempt++) {
+    // Time spent queued under the host's limits counts against the attempt's timeout
+    const queuedAt = Date.now()
+    const slot = acquireHostSlot(url, options)
+    const release = typeof slot === 'function' ? slot : await slot
+
+    let response: Response | undefined
+    try {
+      response = await fetchOnce(url, init, options, Date.now() - queuedAt)
+    } catch (error) {
+      if (options.signal?.aborted || attempt >= retry.maxAttempts) throw error
+    } finally {
+      release()
+    }
+
+    if (response && (response.ok || !retry.retryOn.includes(response.status) || attempt >= retry.maxAttempts)) {
+      return response
+    }
+
+    const backoff = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs)
+    const retryAfter = parseRetryAfter(response?.headers?.get('Retry-After'))
+    const delay = retryAfter ?? (retry.jitter ? Math.random() * backoff : backoff)
+
+    // Not worth holding the request open for; report the failure instead
+    if (delay > retry.maxDelayMs) return response!
+
+    await sleep(delay, options.signal)
+  }
+}
+
+function createV2exFetchOptions(options: FetchOptions): RequestInit {
+  const baseOptions = createFetchOptions(options, 'v2ex')
+  return {
+    ...baseOptions,
+    headers: {
+      'Authorization': `Bearer ${options.v2exToken}`,
+      ...(baseOptions.headers as Record<string, string>)
+    }
+  }
+}
+
+/** Read a V2EX API 2.0 response, which wraps its payload as `{ success, message, result }`. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function readV2exResult(response: Response): Promise<any> {
+  if (!response.ok) throw errorForStatus('V2EX', response.status)
+
+  const data = await readJson(response, 'V2EX')
+  if (data?.success === false) {
+    throw new DiscussionFetchError('UPSTREAM_ERROR', `V2EX API error: ${data.message ?? 'request failed'}`)
+  }
+  return data
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toV2exComment(item: any): Comment {
+  return {
+    id: `v2ex-${item.id}`,
+    author: item.member?.username || 'Anonymous',
+    content: item.content,
+    timestamp: new Date(item.created * 1000).toISOString(),
+    platform: 'v2ex',
+    // API 2.0 names the avatar `avatar`, the legacy API `avatar_mini`
+    avatar: item.member?.avatar ?? item.member?.avatar_mini
+  }
+}
+
+/** `@username #12`: a mention pinned to the floor of the reply it answers. */
+const V2EX_FLOOR_MENTION = new RegExp(`(${MENTION_PATTERN.source})\\s*#(\\d+)`)
+/** A mention the reply opens with, for replies that don't name a floor. */
+const V2EX_LEADING_MENTION = new RegExp(`^\\s*(${MENTION_PATTERN.source})`)
+
+/**
+ * Nest flat V2EX replies, listed in floor order, under the reply each one
+ * answers. A reply answers the floor it names with `@username #N` when that
+ * floor is by the mentioned user; otherwise it answers the mentioned user's
+ * latest earlier reply. Replies without a resolvable mention stay top-level.
+ */
+function threadV2exReplies(flat: Comment[]): Comment[] {
+  const floors = flat.map((comment) => ({ ...comment, replies: [] as Comment[] }))
+  const topLevel: Comment[] = []
+
+  floors.forEach((comment, index) => {
+    const floorMatch = comment.content.match(V2EX_FLOOR_MENTION)
+    const mention = floorMatch ?? comment.content.match(V2EX_LEADING_MENTION)
+    const username = mention?.[1].slice(1).toLowerCase()
+    const isByMentioned = (candidate: Comment) => candidate.author.toLowerCase() === username
+
+    let parent: Comment | undefined
+    if (floorMatch) {
+      // Floors are 1-based; only earlier floors can be answered
+      const floor = Number(floorMatch[2])
+      if (floor >= 1 && floor <= index && isByMentioned(floors[floor - 1])) parent = floors[floor - 1]
+    }
+    if (!parent && username) {
+      // Deleted replies shift floor numbers, so fall back to the user's latest reply
+      parent = floors.slice(0, index).reverse().find(isByMentioned)
+    }
+
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      topLevel.push(comment)
+    }
+  })
+
+  return topLevel
+}
+
+async function loadV2exComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  const comments = await loadV2exReplies(url, options)
+  return options.v2exThreading ? threadV2exReplies(comments) : comments
+}
+
+async function loadV2exReplies(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Extract topic ID from URL
+  const topicId = url.match(/\/t\/(\d+)/)?.[1]
+  if (!topicId) throw new DiscussionFetchError('INVALID_URL', 'Invalid V2EX URL')
+
+  if (options.v2exToken) return loadV2exRepliesV2(topicId, options)
+
+  // Legacy V2EX API endpoint; returns every reply at once
+  const apiUrl = `https://www.v2ex.com/api/replies/show.json?topic_id=${topicId}`
+  
+  const response = await fetchUpstream(apiUrl, options, createFetchOptions(options, 'v2ex'))
+  
+  if (!response.ok) throw errorForStatus('V2EX', response.status)
+  
+  const data = await readJson(response, 'V2EX')
+  if (!Array.isArray(data)) throw new DiscussionFetchError('PARSE_ERROR', 'Invalid V2EX API response: expected an array')
+  
+  return data.map(toV2exComment)
+}
+
+/**
+ * Page through a topic's replies with the V2EX API 2.0, one page at a time,
+ * until the page count reported by the first response.
+ */
+async function loadV2exRepliesV2(topicId: string, options: FetchOptions): Promise<Comment[]> {
+  const comments: Comment[] = []
+  let pages = 1
+
+  for (let page = 1; page <= pages; page++) {
+    const apiUrl = `https://www.v2ex.com/api/v2/topics/${topicId}/replies?p=${page}`
+    const data = await readV2exResult(await fetchUpstream(apiUrl, options, createV2exFetchOptions(options)))
+
+    if (!Array.isArray(data.result)) throw new DiscussionFetchError('PARSE_ERROR', 'Invalid V2EX API response: expected an array of replies')
+    // An empty page means the count moved under us; there is nothing further
+    if (data.result.length === 0) break
+
+    comments.push(...data.result.map(toV2exComment))
+    pages = Number(data.pagination?.pages) || 1
+  }
+
+  return comments
+}
+
+/** Load a topic's metadata, through the API 2.0 when a token is configured. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadV2exTopic(topicId: string, options: FetchOptions): Promise<any> {
+  if (options.v2exToken) {
+    const data = await readV2exResult(
+      await fetchUpstream(`https://www.v2ex.com/api/v2/topics/${topicId}`, options, createV2exFetchOptions(options))
+    )
+    return data.result ?? undefined
+  }
+
+  const response = await fetchUpstream(`https://www.v2ex.com/api/topics/show.json?id=${topicId}`, options, createFetchOptions(options, 'v2ex'))
+  if (!response.ok) throw errorForStatus('V2EX', response.status)
+  const data = await readJson(response, 'V2EX')
+  return Array.isArray(data) ? data[0] : undefined
+}
+
+async function loadV2exThread(url: string, options: FetchOptions): Promise<DiscussionThread> {
+  const topicId = url.match(/\/t\/(\d+)/)?.[1]
+  if (!topicId) throw new DiscussionFetchError('INVALID_URL', 'Invalid V2EX URL')
+
+  // Replies and the topic itself come from separate endpoints
+  const [comments, topic] = await Promise.all([
+    loadV2exComments(url, options),
+    loadV2exTopic(topicId, options).catch((error) => {
+      // Replies are still worth showing without the topic's metadata
+      console.warn('Failed to fetch V2EX topic metadata:', error)
+      return undefined
+    })
+  ])
+
+  return {
+    platform: 'v2ex',
+    permalink: `https://www.v2ex.com/t/${topicId}`,
+    title: topic?.title,
+    commentCount: topic?.replies ?? countComments(comments),
+    author: topic?.member?.username,
+    createdAt: topic?.created ? new Date(topic.created * 1000).toISOString() : undefined,
+    comments
+  }
+}
+
+async function loadV2exCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const topicId = url.match(/\/t\/(\d+)/)?.[1]
+  if (!topicId) throw new DiscussionFetchError('INVALID_URL', 'Invalid V2EX URL')
+
+  const topic = await loadV2exTopic(topicId, options)
+  if (!topic) throw new DiscussionFetchError('NOT_FOUND', 'V2EX topic not found')
+
+  return topic.replies ?? 0
+}
+
+export async function fetchV2exComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadV2exComments(url, options)
   } catch (error) {
-    console.error('Error fetching Hacker News comments:', error)
+    console.error('Error fetching V2EX comments:', error)
     return []
   }
 }
 
-export async function fetchCommentsForPlatform(discussion: ExternalDiscussion, options: FetchOptions = {}): Promise<Comment[]> {
-  switch (discussion.platform) {
-    case 'v2ex':
-      return fetchV2exComments(discussion.url, options)
-    case 'reddit':
-      return fetchRedditComments(discussion.url, options)
-    case 'hackernews':
-      return fetchHackerNewsComments(discussion.url, options)
-    default:
-      console.warn(`Unsupported platform: ${discussion.platform}`)
-      return []
+/**
+ * Canonicalize Reddit thread URLs: old/new/mobile hosts become www.reddit.com,
+ * redd.it short links expand to /comments/<id>/, and comment permalinks,
+ * query strings and fragments are dropped.
+ */
+function canonicalizeRedditUrl(url: string): string {
+  const shortId = url.match(/^(?:https?:\/\/)?redd\.it\/([a-z0-9]+)/i)?.[1]
+  if (shortId) return `https://www.reddit.com/comments/${shortId}/`
+
+  const match = url.match(/reddit\.com(\/r\/[^/]+)?\/comments\/([a-z0-9]+)(?:\/([^/?#]+))?/i)
+  if (!match) return url.trim()
+  const [, subreddit = '', postId, slug] = match
+  return `https://www.reddit.com${subreddit}/comments/${postId}/${slug ? `${slug}/` : ''}`
+}
+
+/** App-only tokens by client id, refreshed shortly before they expire. */
+const redditTokens = new Map<string, { token: string; expiresAt: number }>()
+/** Token requests in flight by client id, so concurrent fetches share one. */
+const redditTokenRequests = new Map<string, Promise<string>>()
+
+/** Seconds before expiry at which a cached token is replaced. */
+const REDDIT_TOKEN_REFRESH_MARGIN = 60
+
+/**
+ * Get an application-only OAuth token for `options.redditCredentials`
+ * through the client credentials grant, cached until shortly before it expires.
+ */
+async function getRedditAccessToken(options: FetchOptions): Promise<string> {
+  const { clientId, clientSecret } = options.redditCredentials!
+
+  const cached = redditTokens.get(clientId)
+  if (cached && cached.expiresAt > Date.now()) return cached.token
+
+  const pending = redditTokenRequests.get(clientId)
+  if (pending) return pending
+
+  const request = (async () => {
+    const baseOptions = createFetchOptions(options, 'reddit')
+    const response = await fetchUpstream('https://www.reddit.com/api/v1/access_token', options, {
+      method: 'POST',
+      headers: {
+        ...(baseOptions.headers as Record<string, string>),
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: 'grant_type=client_credentials',
+      cache: 'no-store'
+    })
+
+    if (!response.ok) throw errorForStatus('Reddit', response.status)
+
+    const data = await readJson(response, 'Reddit')
+    if (!data.access_token) {
+      throw new DiscussionFetchError('UNAUTHORIZED', `Reddit token request failed: ${data.error ?? 'no access token'}`)
+    }
+
+    const expiresIn = Math.max(Number(data.expires_in) || 3600, REDDIT_TOKEN_REFRESH_MARGIN * 2)
+    redditTokens.set(clientId, {
+      token: data.access_token,
+      expiresAt: Date.now() + (expiresIn - REDDIT_TOKEN_REFRESH_MARGIN) * 1000
+    })
+    return data.access_token as string
+  })()
+
+  redditTokenRequests.set(clientId, request)
+  try {
+    return await request
+  } finally {
+    redditTokenRequests.delete(clientId)
   }
 }
 
-export async function fetchAllExternalComments(discussions: ExternalDiscussion[], options: FetchOptions = {}): Promise<Record<string, Comment[]>> {
-  const commentsByPlatform: Record<string, Comment[]> = {}
+/**
+ * Request a Reddit JSON endpoint given by its public URL. With
+ * `options.redditCredentials` the request goes to oauth.reddit.com with an
+ * app-only token; a token rejected mid-life is dropped and replaced once.
+ */
+export async function fetchReddit(publicUrl: string, options: FetchOptions): Promise<Response> {
+  const baseOptions = createFetchOptions(options, 'reddit')
+  if (!options.redditCredentials) return fetchUpstream(publicUrl, options, baseOptions)
+
+  const oauthUrl = new URL(publicUrl)
+  oauthUrl.hostname = 'oauth.reddit.com'
+
+  const request = async () => fetchUpstream(oauthUrl.toString(), options, {
+    ...baseOptions,
+    headers: {
+      ...(baseOptions.headers as Record<string, string>),
+      'Authorization': `Bearer ${await getRedditAccessToken(options)}`
+    }
+  })
+
+  const response = await request()
+  if (response.status !== 401) return response
+
+  redditTokens.delete(options.redditCredentials.clientId)
+  return request()
+}
+
+async function loadRedditComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  return (await loadRedditThread(url, options)).comments
+}
+
+async function loadRedditThread(url: string, options: FetchOptions): Promise<DiscussionThread> {
+  // Normalize Reddit URL and add .json
+  let normalizedUrl = canonicalizeRedditUrl(url)
   
-  // Fetch comments for all platforms in parallel
-  const results = await Promise.allSettled(
-    discussions.map(async (discussion) => ({
-      platform: discussion.platform,
-      comments: await fetchCommentsForPlatform(discussion, options)
-    }))
-  )
+  // Handle www subdomain consistently
+  normalizedUrl = normalizedUrl.replace(/\/\/www\.reddit\.com/, '//reddit.com')
   
-  results.forEach((result, index) => {
-    if (result.status === 'fulfilled') {
-      commentsByPlatform[result.value.platform] = result.value.comments
-    } else {
-      console.error(`Failed to fetch comments for ${discussions[index].platform}:`, result.reason)
-      commentsByPlatform[discussions[index].platform] = []
+  // Remove trailing slash and add .json
+  const jsonUrl = normalizedUrl.replace(/\/$/, '') + '.json'
+  
+  const response = await fetchReddit(jsonUrl, options)
+  
+  if (!response.ok) {
+    console.error(`Reddit API error: ${response.status} ${response.statusText} for URL: ${jsonUrl}`)
+    throw errorForStatus('Reddit', response.status)
+  }
+  
+  const data = await readJson(response, 'Reddit')
+  
+  // Validate Reddit API response structure
+  if (!Array.isArray(data) || data.length < 2) {
+    console.error('Invalid Reddit API response structure:', { url: jsonUrl, dataLength: data?.length })
+    throw new DiscussionFetchError('PARSE_ERROR', 'Invalid Reddit API response: expected array with at least 2 elements')
+  }
+  
+  const post = data[0]?.data?.children?.[0]?.data
+  const thread: DiscussionThread = {
+    platform: 'reddit',
+    permalink: post?.permalink ? `https://www.reddit.com${post.permalink}` : canonicalizeRedditUrl(url),
+    title: post?.title,
+    score: post?.score,
+    commentCount: post?.num_comments,
+    author: post?.author,
+    createdAt: post?.created_utc ? new Date(post.created_utc * 1000).toISOString() : undefined,
+    comments: []
+  }
+  
+  if (!data[1]?.data?.children) {
+    console.error('Missing comments data in Reddit API response:', { url: jsonUrl, hasData1: !!data[1], hasData: !!data[1]?.data })
+    return thread // No comments for posts without comment data
+  }
+  
+  const commentsData = data[1].data.children
+  
+  // Every parsed comment by fullname (t1_<id>), so "load more" results can be spliced under their parent
+  const byFullname = new Map<string, Comment>()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const moreStubs: any[] = []
+  
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const parseRedditComments = (items: any[]): Comment[] => {
+    const comments: Comment[] = []
+    for (const item of items) {
+      if (item.kind === 'more') {
+        moreStubs.push(item.data)
+      } else if (item.kind === 't1') {
+        const comment = toRedditComment(item.data)
+        byFullname.set(`t1_${item.data.id}`, comment)
+        comment.replies = item.data.replies?.data?.children
+          ? parseRedditComments(item.data.replies.data.children)
+          : []
+        comments.push(comment)
+      }
     }
-  })
+    return comments
+  }
+  
+  const comments = parseRedditComments(commentsData)
   
-  return commentsByPlatform
-}
\ No newline at end of file
+  if (options.redditMoreRequests && moreStubs.length > 0) {
+    const linkId = post?.name ?? `t3_${url.match(/\/comments\/([a-z0-9]+)/i)?.[1]}`
+    try {
+      await expandRedditMoreComments(linkId, comments, byFullname, moreStubs, options)
+    } catch (error) {
+      // Keep the comments we already have rather than failing the whole thread
+      console.warn('Failed to expand Reddit "load more comments" stubs:', error)
+    }
+  }
+  
+  return { ...thread, comments }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toRedditComment(data: any): Comment {
+  return {
+    id: `reddit-${data.id}`,
+    author: data.author,
+    // The JSON API escapes &, < and > in the Markdown source
+    content: decodeHtmlEntities(data.body ?? ''),
+    timestamp: new Date(data.created_utc * 1000).toISOString(),
+    votes: data.score,
+    platform: 'reddit',
+    replies: []
+  }
+}
+
+/** Most comment ids Reddit accepts in one morechildren request. */
+const REDDIT_MORECHILDREN_BATCH = 100
+
+/**
+ * Resolve "load more comments" stubs through the morechildren endpoint, splicing
+ * the results into the tree under their parent. Stubs revealed by the expansion
+ * are queued too, until `options.redditMoreRequests` requests have been made.
+ */
+async function expandRedditMoreComments(
+  linkId: string,
+  comments: Comment[],
+  byFullname: Map<string, Comment>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  stubs: any[],
+  options: FetchOptions
+): Promise<void> {
+  const maxRequests = options.redditMoreRequests ?? 0
+  const queue = [...stubs]
+  let requests = 0
+
+  while (queue.length > 0 && requests < maxRequests) {
+    // "Continue this thread" stubs carry no ids and can't be expanded here
+    const ids: string[] = queue.shift().children || []
+
+    for (let i = 0; i < ids.length && requests < maxRequests; i += REDDIT_MORECHILDREN_BATCH) {
+      requests++
+      const batch = ids.slice(i, i + REDDIT_MORECHILDREN_BATCH)
+      const apiUrl = `https://www.reddit.com/api/morechildren.json?api_type=json&link_id=${linkId}&children=${batch.join(',')}`
+
+      const response = await fetchReddit(apiUrl, options)
+
+      if (!response.ok) throw errorForStatus('Reddit', response.status)
+
+      const data = await readJson(response, 'Reddit')
+
+      // Things come back flat, parents before their children
+      for (const thing of data.json?.data?.things || []) {
+        if (thing.kind === 'more') {
+          queue.push(thing.data)
+        } else if (thing.kind === 't1') {
+          const comment = toRedditComment(thing.data)
+          byFullname.set(`t1_${thing.data.id}`, comment)
+
+          const parent = byFullname.get(thing.data.parent_id)
+          if (parent) {
+            parent.replies!.push(comment)
+          } else {
+            comments.push(comment)
+          }
+        }
+      }
+    }
+  }
+}
+
+async function loadRedditCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const postId = canonicalizeRedditUrl(url).match(/\/comments\/([a-z0-9]+)/i)?.[1]
+  if (!postId) throw new DiscussionFetchError('INVALID_URL', 'Invalid Reddit URL')
+
+  // The info endpoint returns the bare post without its comment tree
+  const response = await fetchReddit(`https://www.reddit.com/api/info.json?id=t3_${postId}`, options)
+
+  if (!response.ok) throw errorForStatus('Reddit', response.status)
+
+  const data = await readJson(response, 'Reddit')
+  const post = data.data?.children?.[0]?.data
+  if (!post) throw new DiscussionFetchError('NOT_FOUND', 'Reddit post not found')
+
+  return post.num_comments ?? 0
+}
+
+export async function fetchRedditComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadRedditComments(url, options)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error fetching Reddit comments:', {
+      url,
+      error: errorMessage,
+      timestamp: new Date().toISOString()
+    })
+    return []
+  }
+}
+
+async function loadHackerNewsComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  return (await loadHackerNewsThread(url, options)).comments
+}
+
+async function loadHackerNewsThread(url: string, options: FetchOptions): Promise<DiscussionThread> {
+  // Extract item ID from HN URL
+  const itemId = url.match(/item\?(?:.*&)?id=(\d+)/)?.[1]
+  if (!itemId) throw new DiscussionFetchError('INVALID_URL', 'Invalid Hacker News URL')
+
+  const source = options.hackerNewsSource ?? 'algolia'
+  if (source === 'firebase') return loadHackerNewsFirebaseThread(itemId, options)
+
+  try {
+    return await loadHackerNewsAlgoliaThread(itemId, options)
+  } catch (error) {
+    if (source === 'algolia' || options.signal?.aborted) throw error
+
+    // Algolia lags behind new comments and is sometimes down; the official API is the source of truth
+    console.warn('Hacker News search API failed, falling back to the official API:', error)
+    try {
+      return await loadHackerNewsFirebaseThread(itemId, options)
+    } catch (fallbackError) {
+      console.warn('Hacker News official API failed too:', fallbackError)
+      throw error
+    }
+  }
+}
+
+async function loadHackerNewsAlgoliaThread(itemId: string, options: FetchOptions): Promise<DiscussionThread> {
+  const apiUrl = `https://hn.algolia.com/api/v1/items/${itemId}`
+  
+  const response = await fetchUpstream(apiUrl, options, createFetchOptions(options, 'hackernews'))
+  
+  if (!response.ok) throw errorForStatus('Hacker News', response.status)
+  
+  const data = await readJson(response, 'Hacker News')
+  
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const parseHNComments = (item: any): Comment[] => {
+    const comments: Comment[] = []
+    
+    if (item.children) {
+      for (const child of item.children) {
+        if (child.text) {
+          comments.push({
+            id: `hn-${child.id}`,
+            author: child.author || 'Anonymous',
+            ...fromHtml(child.text, 'https://news.ycombinator.com/'),
+            timestamp: child.created_at,
+            votes: child.points,
+            platform: 'hackernews',
+            replies: parseHNComments(child)
+          })
+        }
+      }
+    }
+    
+    return comments
+  }
+  
+  const comments = parseHNComments(data)
+  
+  return {
+    platform: 'hackernews',
+    permalink: `https://news.ycombinator.com/item?id=${itemId}`,
+    title: data.title ?? undefined,
+    score: data.points ?? undefined,
+    // The items endpoint has no descendant count, so count what came back
+    commentCount: countComments(comments),
+    author: data.author ?? undefined,
+    createdAt: data.created_at ?? undefined,
+    comments
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function fetchHackerNewsItem(itemId: string | number, options: FetchOptions): Promise<any> {
+  const response = await fetchUpstream(`https://hacker-news.firebaseio.com/v0/item/${itemId}.json`, options, createFetchOptions(options, 'hackernews'))
+
+  if (!response.ok) throw errorForStatus('Hacker News', response.status)
+
+  return readJson(response, 'Hacker News')
+}
+
+/**
+ * Walk a thread through the official API, which returns one item per request
+ * with only the ids of its direct replies. Siblings are requested together,
+ * bounded by the host limit for hacker-news.firebaseio.com. Like the Algolia
+ * tree, dead and deleted comments are dropped along with their replies, and
+ * so are replies that fail to load, rather than failing the whole thread.
+ */
+async function loadHackerNewsFirebaseThread(itemId: string, options: FetchOptions): Promise<DiscussionThread> {
+  const story = await fetchHackerNewsItem(itemId, options)
+  if (!story) throw new DiscussionFetchError('NOT_FOUND', 'Hacker News item not found')
+
+  const loadReplies = async (kids: number[] = []): Promise<Comment[]> => {
+    const items = await Promise.all(kids.map((kid) => fetchHackerNewsItem(kid, options).catch((error) => {
+      if (options.signal?.aborted) throw error
+      console.warn(`Failed to fetch Hacker News item ${kid}, leaving it out:`, error)
+      return null
+    })))
+
+    return Promise.all(items
+      .filter((item) => item && !item.deleted && !item.dead && item.text)
+      .map(async (item): Promise<Comment> => ({
+        id: `hn-${item.id}`,
+        author: item.by || 'Anonymous',
+        ...fromHtml(item.text, 'https://news.ycombinator.com/'),
+        timestamp: new Date(item.time * 1000).toISOString(),
+        votes: item.score,
+        platform: 'hackernews',
+        replies: await loadReplies(item.kids)
+      })))
+  }
+
+  const comments = await loadReplies(story.kids)
+
+  return {
+    platform: 'hackernews',
+    permalink: `https://news.ycombinator.com/item?id=${itemId}`,
+    title: story.title,
+    score: story.score,
+    commentCount: story.descendants ?? countComments(comments),
+    author: story.by,
+    createdAt: story.time ? new Date(story.time * 1000).toISOString() : undefined,
+    comments
+  }
+}
+
+async function loadHackerNewsCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const itemId = url.match(/item\?(?:.*&)?id=(\d+)/)?.[1]
+  if (!itemId) throw new DiscussionFetchError('INVALID_URL', 'Invalid Hacker News URL')
+
+  // The official API's item carries a descendant count and only the ids of direct replies
+  const data = await fetchHackerNewsItem(itemId, options)
+  if (!data) throw new DiscussionFetchError('NOT_FOUND', 'Hacker News item not found')
+
+  return data.descendants ?? 0
+}
+
+export async function fetchHackerNewsComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadHackerNewsComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Hacker News comments:', error)
+    return []
+  }
+}
+
+async function loadLobstersComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  return (await loadLobstersThread(url, options)).comments
+}
+
+async function loadLobstersThread(url: string, options: FetchOptions): Promise<DiscussionThread> {
+  // Extract story short id from Lobsters URL
+  const storyId = url.match(/lobste\.rs\/s\/([a-z0-9]+)/i)?.[1]
+  if (!storyId) throw new DiscussionFetchError('INVALID_URL', 'Invalid Lobsters URL')
+
+  const apiUrl = `https://lobste.rs/s/${storyId}.json`
+
+  const response = await fetchUpstream(apiUrl, options, createFetchOptions(options, 'lobsters'))
+
+  if (!response.ok) throw errorForStatus('Lobsters', response.status)
+
+  const data = await readJson(response, 'Lobsters')
+
+  // Lobsters returns comments flattened in thread order; rebuild the tree from parent ids
+  const comments: Comment[] = []
+  const byShortId = new Map<string, Comment>()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const item of (data.comments || []) as any[]) {
+    // Older API versions return the user as an object, newer ones as a plain username
+    const user = item.commenting_user
+    const username: string = (typeof user === 'string' ? user : user?.username) || 'Anonymous'
+    const avatarPath: string | undefined = typeof user === 'string'
+      ? `/avatars/${user}-100.png`
+      : user?.avatar_url
+
+    const comment: Comment = {
+      id: `lobsters-${item.short_id}`,
+      author: username,
+      ...fromHtml(String(item.comment || ''), 'https://lobste.rs/'),
+      // The Markdown source reads better as plain text than the rendered HTML does
+      ...(item.comment_plain !== undefined && { content: item.comment_plain }),
+      timestamp: new Date(item.created_at).toISOString(),
+      votes: item.score,
+      platform: 'lobsters',
+      avatar: avatarPath ? new URL(avatarPath, 'https://lobste.rs').toString() : undefined,
+      replies: []
+    }
+
+    byShortId.set(item.short_id, comment)
+
+    const parent = item.parent_comment ? byShortId.get(item.parent_comment) : undefined
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      comments.push(comment)
+    }
+  }
+
+  const submitter = data.submitter_user
+  return {
+    platform: 'lobsters',
+    permalink: data.short_id_url ?? `https://lobste.rs/s/${storyId}`,
+    title: data.title,
+    score: data.score,
+    commentCount: data.comment_count ?? countComments(comments),
+    author: typeof submitter === 'string' ? submitter : submitter?.username,
+    createdAt: data.created_at ? new Date(data.created_at).toISOString() : undefined,
+    comments
+  }
+}
+
+export async function fetchLobstersComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadLobstersComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Lobsters comments:', error)
+    return []
+  }
+}
+
+/** Upper bound on pages fetched per GitHub thread, to keep huge threads from exhausting the rate limit. */
+const GITHUB_MAX_PAGES = 10
+const GITHUB_PAGE_SIZE = 100
+
+const GITHUB_DISCUSSION_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      discussion(number: $number) {
+        comments(first: ${GITHUB_PAGE_SIZE}, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            databaseId
+            body
+            createdAt
+            author { login avatarUrl }
+            reactions { totalCount }
+            replies(first: ${GITHUB_PAGE_SIZE}) {
+              nodes {
+                databaseId
+                body
+                createdAt
+                author { login avatarUrl }
+                reactions { totalCount }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+function createGitHubFetchOptions(options: FetchOptions): RequestInit {
+  const baseOptions = createFetchOptions(options, 'github')
+  return {
+    ...baseOptions,
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      ...(options.githubToken && { 'Authorization': `Bearer ${options.githubToken}` }),
+      // Configured headers win over these defaults
+      ...(baseOptions.headers as Record<string, string>)
+    }
+  }
+}
+
+async function loadGitHubComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Extract owner, repo, thread type and number from GitHub URL
+  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/(issues|pull|discussions)\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid GitHub URL')
+  const [, owner, repo, kind, number] = match
+
+  if (kind === 'discussions') {
+    return await fetchGitHubDiscussionComments(owner, repo, Number(number), options)
+  }
+
+  // Issues and pull requests share the issue comments endpoint
+  const comments: Comment[] = []
+
+  for (let page = 1; page <= GITHUB_MAX_PAGES; page++) {
+    const apiUrl = `https://api.github.com/repos/${owner}/${repo}/issues/${number}/comments?per_page=${GITHUB_PAGE_SIZE}&page=${page}`
+
+    const response = await fetchUpstream(apiUrl, options, createGitHubFetchOptions(options))
+
+    if (!response.ok) throw errorForStatus('GitHub', response.status)
+
+    const data = await readJson(response, 'GitHub')
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    comments.push(...data.map((item: any) => ({
+      id: `github-${item.id}`,
+      author: item.user?.login || 'ghost',
+      content: item.body || '',
+      timestamp: item.created_at,
+      votes: item.reactions?.total_count,
+      platform: 'github',
+      avatar: item.user?.avatar_url
+    })))
+
+    if (data.length < GITHUB_PAGE_SIZE) break
+  }
+
+  return comments
+}
+
+async function loadGitHubCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/(issues|pull|discussions)\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid GitHub URL')
+  const [, owner, repo, kind, number] = match
+
+  if (kind === 'discussions') {
+    return countComments(await fetchGitHubDiscussionComments(owner, repo, Number(number), options))
+  }
+
+  const response = await fetchUpstream(`https://api.github.com/repos/${owner}/${repo}/issues/${number}`, options, createGitHubFetchOptions(options))
+
+  if (!response.ok) throw errorForStatus('GitHub', response.status)
+
+  const data = await readJson(response, 'GitHub')
+  return data.comments ?? 0
+}
+
+export async function fetchGitHubComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadGitHubComments(url, options)
+  } catch (error) {
+    console.error('Error fetching GitHub comments:', error)
+    return []
+  }
+}
+
+async function fetchGitHubDiscussionComments(owner: string, repo: string, number: number, options: FetchOptions): Promise<Comment[]> {
+  // The REST API has no discussions endpoint, and GraphQL always requires authentication
+  if (!options.githubToken) throw new DiscussionFetchError('UNAUTHORIZED', 'GitHub Discussions require a githubToken')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const toComment = (node: any): Comment => ({
+    id: `github-${node.databaseId}`,
+    author: node.author?.login || 'ghost',
+    content: node.body || '',
+    timestamp: node.createdAt,
+    votes: node.reactions?.totalCount,
+    platform: 'github',
+    avatar: node.author?.avatarUrl
+  })
+
+  const comments: Comment[] = []
+  let after: string | null = null
+
+  for (let page = 0; page < GITHUB_MAX_PAGES; page++) {
+    const response: Response = await fetchUpstream('https://api.github.com/graphql', options, {
+      ...createGitHubFetchOptions(options),
+      method: 'POST',
+      body: JSON.stringify({
+        query: GITHUB_DISCUSSION_QUERY,
+        variables: { owner, repo, number, after }
+      })
+    })
+
+    if (!response.ok) throw errorForStatus('GitHub', response.status)
+
+    const data = await readJson(response, 'GitHub')
+    const connection = data.data?.repository?.discussion?.comments
+    if (!connection) throw new DiscussionFetchError('NOT_FOUND', data.errors?.[0]?.message || 'GitHub discussion not found')
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    for (const node of connection.nodes as any[]) {
+      comments.push({
+        ...toComment(node),
+        replies: (node.replies?.nodes || []).map(toComment)
+      })
+    }
+
+    if (!connection.pageInfo?.hasNextPage) break
+    after = connection.pageInfo.endCursor
+  }
+
+  return comments
+}
+
+async function loadMastodonComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Status URLs look like https://instance/@user/<id> or https://instance/users/<user>/statuses/<id>
+  const match = url.match(/^(https?:\/\/[^/]+)\/(?:@[^/]+|users\/[^/]+\/statuses)\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Mastodon URL')
+  const [, instance, statusId] = match
+  const origin = publicOrigin(instance, 'Mastodon')
+
+  const apiUrl = `${origin}/api/v1/statuses/${statusId}/context`
+
+  const response = await fetchUpstream(apiUrl, options, createInstanceFetchOptions(options, 'mastodon'))
+
+  if (!response.ok) throw errorForStatus('Mastodon', response.status)
+
+  const data = await readJson(response, 'Mastodon')
+
+  // Descendants come back flat in thread order; nest them by in_reply_to_id
+  const comments: Comment[] = []
+  const byId = new Map<string, Comment>()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const status of (data.descendants || []) as any[]) {
+    const comment: Comment = {
+      id: `mastodon-${status.id}`,
+      author: status.account?.acct || status.account?.username || 'Anonymous',
+      ...fromHtml(status.content || ''),
+      timestamp: status.created_at,
+      votes: status.favourites_count,
+      platform: 'mastodon',
+      avatar: status.account?.avatar,
+      replies: []
+    }
+
+    byId.set(status.id, comment)
+
+    const parent = status.in_reply_to_id !== statusId ? byId.get(status.in_reply_to_id) : undefined
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      comments.push(comment)
+    }
+  }
+
+  return comments
+}
+
+export async function fetchMastodonComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadMastodonComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Mastodon comments:', error)
+    return []
+  }
+}
+
+const BLUESKY_API = 'https://public.api.bsky.app/xrpc'
+/** Reply depth requested from getPostThread (the API defaults to 6). */
+const BLUESKY_THREAD_DEPTH = 100
+
+async function loadBlueskyComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Extract handle (or DID) and record key from bsky.app URL
+  const match = url.match(/bsky\.app\/profile\/([^/]+)\/post\/([a-z0-9]+)/i)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Bluesky URL')
+  const [, actor, rkey] = match
+
+  let did = actor
+  if (!actor.startsWith('did:')) {
+    const handleResponse = await fetchUpstream(
+      `${BLUESKY_API}/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(actor)}`,
+      options,
+      createFetchOptions(options, 'bluesky')
+    )
+    if (!handleResponse.ok) throw errorForStatus('Bluesky', handleResponse.status)
+    did = (await readJson(handleResponse, 'Bluesky')).did
+  }
+
+  const postUri = `at://${did}/app.bsky.feed.post/${rkey}`
+  const apiUrl = `${BLUESKY_API}/app.bsky.feed.getPostThread?uri=${encodeURIComponent(postUri)}&depth=${BLUESKY_THREAD_DEPTH}`
+
+  const response = await fetchUpstream(apiUrl, options, createFetchOptions(options, 'bluesky'))
+
+  if (!response.ok) throw errorForStatus('Bluesky', response.status)
+
+  const data = await readJson(response, 'Bluesky')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const parseBlueskyReplies = (replies: any[] = []): Comment[] => {
+    return replies
+      // Skip notFound/blocked placeholders, which carry no post
+      .filter((reply) => reply?.post)
+      .map((reply) => ({
+        id: `bluesky-${reply.post.cid}`,
+        author: reply.post.author?.handle || 'Anonymous',
+        content: reply.post.record?.text || '',
+        timestamp: reply.post.record?.createdAt || reply.post.indexedAt,
+        votes: reply.post.likeCount,
+        platform: 'bluesky',
+        avatar: reply.post.author?.avatar,
+        replies: parseBlueskyReplies(reply.replies)
+      }))
+  }
+
+  return parseBlueskyReplies(data.thread?.replies)
+}
+
+export async function fetchBlueskyComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadBlueskyComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Bluesky comments:', error)
+    return []
+  }
+}
+
+/** Upper bound on post stream pages fetched per Discourse topic (20 posts per page). */
+const DISCOURSE_MAX_PAGES = 25
+
+async function loadDiscourseComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Topic URLs look like https://forum.example.com/t/<slug>/<id>[/<post_number>]
+  const match = url.match(/^(https?:\/\/[^/]+)\/t\/[^/]+\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Discourse URL')
+  const [, forum, topicId] = match
+  const origin = publicOrigin(forum, 'Discourse')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const posts: any[] = []
+
+  for (let page = 1; page <= DISCOURSE_MAX_PAGES; page++) {
+    const apiUrl = `${origin}/t/${topicId}.json?page=${page}`
+
+    const response = await fetchUpstream(apiUrl, options, createInstanceFetchOptions(options, 'discourse'))
+
+    // Discourse answers 404 once we page past the end of the stream
+    if (!response.ok) {
+      if (page > 1 && response.status === 404) break
+      throw errorForStatus('Discourse', response.status)
+    }
+
+    const data = await readJson(response, 'Discourse')
+    const pagePosts = data.post_stream?.posts || []
+    posts.push(...pagePosts)
+
+    const total = data.post_stream?.stream?.length ?? data.posts_count ?? 0
+    if (pagePosts.length === 0 || posts.length >= total) break
+  }
+
+  const comments: Comment[] = []
+  const byPostNumber = new Map<number, Comment>()
+
+  for (const post of posts) {
+    // Post #1 is the topic itself, not a comment on it
+    if (post.post_number === 1 || byPostNumber.has(post.post_number)) continue
+
+    const avatarTemplate: string | undefined = post.avatar_template
+    const comment: Comment = {
+      id: `discourse-${post.id}`,
+      author: post.username || 'Anonymous',
+      ...fromHtml(post.cooked || '', origin),
+      timestamp: post.created_at,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      votes: post.actions_summary?.find((action: any) => action.id === 2)?.count ?? 0,
+      platform: 'discourse',
+      avatar: avatarTemplate ? new URL(avatarTemplate.replace('{size}', '90'), origin).toString() : undefined,
+      replies: []
+    }
+
+    byPostNumber.set(post.post_number, comment)
+
+    const parent = post.reply_to_post_number ? byPostNumber.get(post.reply_to_post_number) : undefined
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      comments.push(comment)
+    }
+  }
+
+  return comments
+}
+
+async function loadDiscourseCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const match = url.match(/^(https?:\/\/[^/]+)\/t\/[^/]+\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Discourse URL')
+  const [, forum, topicId] = match
+  const origin = publicOrigin(forum, 'Discourse')
+
+  const response = await fetchUpstream(`${origin}/t/${topicId}.json`, options, createInstanceFetchOptions(options, 'discourse'))
+
+  if (!response.ok) throw errorForStatus('Discourse', response.status)
+
+  const data = await readJson(response, 'Discourse')
+  // posts_count includes the opening post
+  return Math.max((data.posts_count ?? 1) - 1, 0)
+}
+
+export async function fetchDiscourseComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadDiscourseComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Discourse comments:', error)
+    return []
+  }
+}
+
+/** Upper bound on comment list pages fetched per Lemmy post. */
+const LEMMY_MAX_PAGES = 10
+const LEMMY_PAGE_SIZE = 50
+
+async function loadLemmyComments(url: string, options: FetchOptions): Promise<Comment[]> {
+  // Post URLs look like https://lemmy.example/post/<id>
+  const match = url.match(/^(https?:\/\/[^/]+)\/post\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Lemmy URL')
+  const [, instance, postId] = match
+  const origin = publicOrigin(instance, 'Lemmy')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const views: any[] = []
+
+  for (let page = 1; page <= LEMMY_MAX_PAGES; page++) {
+    const apiUrl = `${origin}/api/v3/comment/list?post_id=${postId}&type_=All&sort=Top&limit=${LEMMY_PAGE_SIZE}&page=${page}`
+
+    const response = await fetchUpstream(apiUrl, options, createInstanceFetchOptions(options, 'lemmy'))
+
+    if (!response.ok) throw errorForStatus('Lemmy', response.status)
+
+    const data = await readJson(response, 'Lemmy')
+    const pageComments = data.comments || []
+    views.push(...pageComments)
+
+    if (pageComments.length < LEMMY_PAGE_SIZE) break
+  }
+
+  const byId = new Map<string, Comment>()
+
+  for (const view of views) {
+    const { comment: item, creator, counts } = view
+    byId.set(String(item.id), {
+      id: `lemmy-${item.id}`,
+      author: creator?.name || 'Anonymous',
+      content: item.removed ? '[removed]' : item.deleted ? '[deleted]' : item.content,
+      timestamp: item.published,
+      votes: counts?.score,
+      platform: 'lemmy',
+      avatar: creator?.avatar,
+      replies: []
+    })
+  }
+
+  // `path` is the dotted chain of ancestor ids, rooted at "0": "0.12.34" is comment 34 replying to 12
+  const comments: Comment[] = []
+
+  for (const view of views) {
+    const comment = byId.get(String(view.comment.id))!
+    const ancestors = String(view.comment.path || '').split('.')
+    const parent = ancestors.length > 2 ? byId.get(ancestors[ancestors.length - 2]) : undefined
+
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      comments.push(comment)
+    }
+  }
+
+  return comments
+}
+
+async function loadLemmyCommentCount(url: string, options: FetchOptions): Promise<number> {
+  const match = url.match(/^(https?:\/\/[^/]+)\/post\/(\d+)/)
+  if (!match) throw new DiscussionFetchError('INVALID_URL', 'Invalid Lemmy URL')
+  const [, instance, postId] = match
+  const origin = publicOrigin(instance, 'Lemmy')
+
+  const response = await fetchUpstream(`${origin}/api/v3/post?id=${postId}`, options, createInstanceFetchOptions(options, 'lemmy'))
+
+  if (!response.ok) throw errorForStatus('Lemmy', response.status)
+
+  const data = await readJson(response, 'Lemmy')
+  return data.post_view?.counts?.comments ?? 0
+}
+
+export async function fetchLemmyComments(url: string, options: FetchOptions = {}): Promise<Comment[]> {
+  try {
+    return await loadLemmyComments(url, options)
+  } catch (error) {
+    console.error('Error fetching Lemmy comments:', error)
+    return []
+  }
+}
+
+const platformRegistry = new Map<string, PlatformAdapter>()
+
+/**
+ * Register a platform adapter so the fetch utilities, API handlers and
+ * components can use it. Registering an existing id replaces that adapter.
+ */
+export function registerPlatform(adapter: PlatformAdapter): void {
+  platformRegistry.set(adapter.id, adapter)
+}
+
+/**
+ * Remove a previously registered platform adapter.
+ */
+export function unregisterPlatform(id: string): boolean {
+  return platformRegistry.delete(id)
+}
+
+export function getPlatform(id: string): PlatformAdapter | undefined {
+  return platformRegistry.get(id)
+}
+
+export function getRegisteredPlatforms(): PlatformAdapter[] {
+  return Array.from(platformRegistry.values())
+}
+
+/**
+ * Syntax a comment's `content` is written in: its own `format`, else the
+ * `contentFormat` of its platform's adapter, else plain text.
+ */
+export function getCommentFormat(comment: Comment): CommentFormat {
+  return comment.format ?? getPlatform(comment.platform)?.contentFormat ?? 'text'
+}
+
+/**
+ * Work out which platform a bare thread URL belongs to, and canonicalize it.
+ * Adapters registered later are tried first, so custom adapters take
+ * precedence over the built-in catch-all matchers (Mastodon, Discourse, Lemmy).
+ */
+export function detectPlatform(url: string): { platform: string; url: string } | undefined {
+  const adapter = getRegisteredPlatforms().reverse().find((candidate) => candidate.matchUrl(url))
+  if (!adapter) return undefined
+
+  return {
+    platform: adapter.id,
+    url: adapter.canonicalizeUrl ? adapter.canonicalizeUrl(url) : url
+  }
+}
+
+/**
+ * Adapter for a discussion, detecting the platform from its URL when none is set.
+ */
+export function resolvePlatform(discussion: ExternalDiscussion): PlatformAdapter | undefined {
+  const platform = discussion.platform ?? detectPlatform(discussion.url)?.platform
+  return platform ? getPlatform(platform) : undefined
+}
+
+registerPlatform({
+  id: 'v2ex',
+  name: 'V2EX',
+  matchUrl: (url) => /v2ex\.com\/(amp\/)?t\/\d+/.test(url),
+  canonicalizeUrl: (url) => {
+    const topicId = url.match(/\/t\/(\d+)/)?.[1]
+    return topicId ? `https://www.v2ex.com/t/${topicId}` : url
+  },
+  fetchComments: loadV2exComments,
+  fetchThread: loadV2exThread,
+  fetchCommentCount: loadV2exCommentCount
+})
+
+registerPlatform({
+  id: 'reddit',
+  name: 'Reddit',
+  contentFormat: 'markdown',
+  // Reddit links to subreddits and users by path, e.g. [x](/r/foo)
+  contentBaseUrl: 'https://www.reddit.com/',
+  matchUrl: (url) => /reddit\.com\/(r\/[^/]+\/)?comments\/[a-z0-9]+/i.test(url) || /^(https?:\/\/)?redd\.it\/[a-z0-9]+/i.test(url),
+  canonicalizeUrl: canonicalizeRedditUrl,
+  fetchComments: loadRedditComments,
+  fetchThread: loadRedditThread,
+  fetchCommentCount: loadRedditCommentCount
+})
+
+registerPlatform({
+  id: 'hackernews',
+  name: 'Hacker News',
+  matchUrl: (url) => /ycombinator\.com\/item\?(.*&)?id=\d+/.test(url),
+  canonicalizeUrl: (url) => {
+    const itemId = url.match(/item\?(?:.*&)?id=(\d+)/)?.[1]
+    return itemId ? `https://news.ycombinator.com/item?id=${itemId}` : url
+  },
+  fetchComments: loadHackerNewsComments,
+  fetchThread: loadHackerNewsThread,
+  fetchCommentCount: loadHackerNewsCommentCount
+})
+
+registerPlatform({
+  id: 'lobsters',
+  name: 'Lobsters',
+  matchUrl: (url) => /lobste\.rs\/s\/[a-z0-9]+/i.test(url),
+  canonicalizeUrl: (url) => {
+    const storyId = url.match(/lobste\.rs\/s\/([a-z0-9]+)/i)?.[1]
+    return storyId ? `https://lobste.rs/s/${storyId}` : url
+  },
+  fetchComments: loadLobstersComments,
+  fetchThread: loadLobstersThread
+})
+
+registerPlatform({
+  id: 'github',
+  name: 'GitHub',
+  matchUrl: (url) => /github\.com\/[^/]+\/[^/]+\/(issues|pull|discussions)\/\d+/.test(url),
+  canonicalizeUrl: (url) => {
+    const thread = url.match(/github\.com\/[^/]+\/[^/]+\/(issues|pull|discussions)\/\d+/)?.[0]
+    return thread ? `https://${thread}` : url
+  },
+  fetchComments: loadGitHubComments,
+  fetchCommentCount: loadGitHubCommentCount
+})
+
+registerPlatform({
+  id: 'mastodon',
+  name: 'Mastodon',
+  anyHost: true,
+  matchUrl: (url) => /^https?:\/\/[^/]+\/(@[^/]+|users\/[^/]+\/statuses)\/\d+/.test(url),
+  canonicalizeUrl: (url) => url.match(/^https?:\/\/[^/]+\/(@[^/]+|users\/[^/]+\/statuses)\/\d+/)?.[0] ?? url,
+  fetchComments: loadMastodonComments
+})
+
+registerPlatform({
+  id: 'bluesky',
+  name: 'Bluesky',
+  matchUrl: (url) => /bsky\.app\/profile\/[^/]+\/post\/[a-z0-9]+/i.test(url),
+  fetchComments: loadBlueskyComments
+})
+
+registerPlatform({
+  id: 'discourse',
+  name: 'Discourse',
+  anyHost: true,
+  matchUrl: (url) => /^https?:\/\/[^/]+\/t\/[^/]+\/\d+/.test(url),
+  // Drop the post number so links to a reply resolve to the topic
+  canonicalizeUrl: (url) => url.match(/^https?:\/\/[^/]+\/t\/[^/]+\/\d+/)?.[0] ?? url,
+  fetchComments: loadDiscourseComments,
+  fetchCommentCount: loadDiscourseCommentCount
+})
+
+registerPlatform({
+  id: 'lemmy',
+  name: 'Lemmy',
+  anyHost: true,
+  matchUrl: (url) => /^https?:\/\/[^/]+\/post\/\d+/.test(url),
+  canonicalizeUrl: (url) => url.match(/^https?:\/\/[^/]+\/post\/\d+/)?.[0] ?? url,
+  fetchComments: loadLemmyComments,
+  fetchCommentCount: loadLemmyCommentCount
+})
+
+function toFetchError(error: unknown): DiscussionFetchError {
+  if (error instanceof DiscussionFetchError) return error
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  return new DiscussionFetchError('UPSTREAM_ERROR', message)
+}
+
+function unsupportedPlatformError(discussion: ExternalDiscussion): DiscussionFetchError {
+  const message = discussion.platform
+    ? `Unsupported platform: ${discussion.platform}`
+    : `No platform recognizes URL: ${discussion.url}`
+  return new DiscussionFetchError('UNSUPPORTED_PLATFORM', message)
+}
+
+/**
+ * Key for a platform result, in the cache and among requests in flight.
+ * Options that change what is fetched are part of it, so a cached result is
+ * only served to calls that would fetch the same thing; credentials count by presence only, keeping secrets out of
+ * keys that a file cache writes to disk.
+ */
+function resultKey(kind: string, adapterId: string, url: string, options: FetchOptions): string {
+  const variant: Record<string, string | number | boolean | undefined> = {
+    redditMoreRequests: options.redditMoreRequests || undefined,
+    hackerNewsSource: options.hackerNewsSource === 'algolia' ? undefined : options.hackerNewsSource,
+    v2exThreading: options.v2exThreading || undefined,
+    githubToken: options.githubToken ? true : undefined,
+    v2exToken: options.v2exToken ? true : undefined,
+    redditCredentials: options.redditCredentials ? true : undefined
+  }
+  const suffix = Object.keys(variant)
+    .filter((name) => variant[name] !== undefined)
+    .map((name) => `${name}=${variant[name]}`)
+    .join('&')
+  return `${kind}:${adapterId}:${url}${suffix ? `|${suffix}` : ''}`
+}
+
+/**
+ * Fetch comments for a discussion, reporting failures as a typed error
+ * instead of an empty list.
+ */
+export async function fetchCommentsResult(discussion: ExternalDiscussion, options: FetchOptions = {}): Promise<FetchResult<Comment[]>> {
+  const adapter = resolvePlatform(discussion)
+
+  if (!adapter) {
+    return { ok: false, error: unsupportedPlatformError(discussion) }
+  }
+
+  try {
+    const url = adapter.canonicalizeUrl ? adapter.canonicalizeUrl(discussion.url) : discussion.url
+    const key = resultKey('comments', adapter.id, url, options)
+    const comments = await coalesce(key, options, () => withCache(key, options, () => adapter.fetchComments(url, options)))
+    return { ok: true, data: comments }
+  } catch (error) {
+    return { ok: false, error: toFetchError(error) }
+  }
+}
+
+/**
+ * Fetch a discussion's title, score, comment count and submitter along with
+ * its comments. Platforms that don't expose metadata still return a thread,
+ * with only the comments and their count filled in.
+ */
+export async function fetchThreadResult(discussion: ExternalDiscussion, options: FetchOptions = {}): Promise<FetchResult<DiscussionThread>> {
+  const adapter = resolvePlatform(discussion)
+
+  if (!adapter) {
+    return { ok: false, error: unsupportedPlatformError(discussion) }
+  }
+
+  try {
+    const url = adapter.canonicalizeUrl ? adapter.canonicalizeUrl(discussion.url) : discussion.url
+
+    const key = resultKey('thread', adapter.id, url, options)
+    const thread = await coalesce(key, options, () => withCache(key, options, async (): Promise<DiscussionThread> => {
+      if (adapter.fetchThread) return adapter.fetchThread(url, options)
+
+      const comments = await adapter.fetchComments(url, options)
+      return { platform: adapter.id, permalink: url, commentCount: countComments(comments), comments }
+    }))
+    return { ok: true, data: thread }
+  } catch (error) {
+    return { ok: false, error: toFetchError(error) }
+  }
+}
+
+/**
+ * Fetch only a discussion's comment count, through the platform's cheapest
+ * endpoint where it has one instead of downloading the whole thread.
+ */
+export async function fetchCommentCountResult(discussion: ExternalDiscussion, options: FetchOptions = {}): Promise<FetchResult<number>> {
+  const adapter = resolvePlatform(discussion)
+
+  if (!adapter) {
+    return { ok: false, error: unsupportedPlatformError(discussion) }
+  }
+
+  try {
+    const url = adapter.canonicalizeUrl ? adapter.canonicalizeUrl(discussion.url) : discussion.url
+
+    const key = resultKey('count', adapter.id, url, options)
+    const count = await coalesce(key, options, () => withCache(key, options, async (): Promise<number> => {
+      if (adapter.fetchCommentCount) return adapter.fetchCommentCount(url, options)
+
+      if (adapter.fetchThread) {
+        const thread = await adapter.fetchThread(url, options)
+        return thread.commentCount ?? countComments(thread.comments)
+      }
+
+      return countComments(await adapter.fetchComments(url, options))
+    }))
+    return { ok: true, data: count }
+  } catch (error) {
+    return { ok: false, error: toFetchError(error) }
+  }
+}
+
+export async function fetchCommentsForPlatform(discussion: ExternalDiscussion, options: FetchOptions = {}): Promise<Comment[]> {
+  const result = await fetchCommentsResult(discussion, options)
+
+  if (!result.ok) {
+    if (result.error.code === 'UNSUPPORTED_PLATFORM') {
+      console.warn(result.error.message)
+    } else {
+      console.error(`Error fetching ${resolvePlatform(discussion)!.name} comments:`, result.error)
+    }
+    return []
+  }
+
+  return result.data
+}
+
+/**
+ * Stable key for a discussion: its explicit `id` if given, otherwise its URL.
+ * Results from `fetchAllExternalComments` and the components' state are keyed by it,
+ * so several threads on the same platform don't overwrite each other.
+ */
+export function getDiscussionKey(discussion: ExternalDiscussion): string {
+  return discussion.id ?? discussion.url
+}
+
+export async function fetchAllExternalComments(discussions: ExternalDiscussion[], options: FetchOptions = {}): Promise<Record<string, Comment[]>> {
+  const commentsByDiscussion: Record<string, Comment[]> = {}
+  
+  // Fetch comments for all discussions in parallel
+  const results = await Promise.allSettled(
+    discussions.map((discussion) => fetchCommentsForPlatform(discussion, options))
+  )
+  
+  results.forEach((result, index) => {
+    const key = getDiscussionKey(discussions[index])
+    if (result.status === 'fulfilled') {
+      commentsByDiscussion[key] = result.value
+    } else {
+      console.error(`Failed to fetch comments for ${key}:`, result.reason)
+      commentsByDiscussion[key] = []
+    }
+  })
+  
+  return commentsByDiscussion
+}
+
+
+/**
+ * Like `fetchAllExternalComments`, but keeps each discussion's failure
+ * instead of collapsing it to an empty list.
+ */
+export async function fetchAllCommentsResults(discussions: ExternalDiscussion[], options: FetchOptions = {}): Promise<Record<string, FetchResult<Comment[]>>> {
+  const results = await Promise.all(
+    discussions.map((discussion) => fetchCommentsResult(discussion, options))
+  )
+
+  const resultsByDiscussion: Record<string, FetchResult<Comment[]>> = {}
+  results.forEach((result, index) => {
+    resultsByDiscussion[getDiscussionKey(discussions[index])] = result
+  })
+
+  return resultsByDiscussion
+}
+
+/**
+ * `fetchThreadResult` for several discussions, keyed by `getDiscussionKey`.
+ */
+export async function fetchAllThreadResults(discussions: ExternalDiscussion[], options: FetchOptions = {}): Promise<Record<string, FetchResult<DiscussionThread>>> {
+  const results = await Promise.all(
+    discussions.map((discussion) => fetchThreadResult(discussion, options))
+  )
+
+  const resultsByDiscussion: Record<string, FetchResult<DiscussionThread>> = {}
+  results.forEach((result, index) => {
+    resultsByDiscussion[getDiscussionKey(discussions[index])] = result
+  })
+
+  return resultsByDiscussion
+}
+
+/**
+ * Comment counts for several discussions, keyed by `getDiscussionKey`, for list
+ * views that don't need the comments themselves. A count is `null` when it
+ * couldn't be fetched.
+ */
+export async function fetchCommentCounts(discussions: ExternalDiscussion[], options: FetchOptions = {}): Promise<Record<string, number | null>> {
+  const results = await Promise.all(
+    discussions.map((discussion) => fetchCommentCountResult(discussion, options))
+  )
+
+  const countsByDiscussion: Record<string, number | null> = {}
+  results.forEach((result, index) => {
+    const key = getDiscussionKey(discussions[index])
+    if (result.ok) {
+      countsByDiscussion[key] = result.data
+    } else {
+      console.error(`Failed to fetch comment count for ${key}:`, result.error)
+      countsByDiscussion[key] = null
+    }
+  })
+
+  return countsByDiscussion
+}
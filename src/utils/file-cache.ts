@@ -0,0 +1,37 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { CacheStore } from '../types'
+
+/**
+ * On-disk store writing one JSON file per entry into `directory`, so cached
+ * threads survive restarts and are shared between build workers. Node.js only,
+ * so it lives apart from `withCache`, which client components reach through
+ * the platform registry.
+ */
+export function createFileCache({ directory }: { directory: string }): CacheStore {
+  const fileFor = (key: string) => join(directory, `${createHash('sha256').update(key).digest('hex')}.json`)
+
+  return {
+    async get(key) {
+      try {
+        const stored = JSON.parse(await readFile(fileFor(key), 'utf8'))
+        // Guard against hash collisions and files written by something else
+        return stored?.key === key ? { value: stored.value, storedAt: stored.storedAt } : undefined
+      } catch {
+        return undefined
+      }
+    },
+    async set(key, entry) {
+      const file = fileFor(key)
+      await mkdir(directory, { recursive: true })
+      // Write then rename, so concurrent readers never see a half-written file
+      const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`
+      await writeFile(tempFile, JSON.stringify({ key, ...entry }))
+      await rename(tempFile, file)
+    },
+    async delete(key) {
+      await rm(fileFor(key), { force: true })
+    }
+  }
+}
@@ -0,0 +1,417 @@
+import type { RichBlock, RichContent, RichInline } from '../types'
+import { safeHref } from './rich-content'
+
+/*
+ * A Markdown reader covering what Reddit comments use: paragraphs, headings,
+ * quotes, lists, fenced and indented code, tables, rules, emphasis, `~~strike~~`,
+ * `>!spoilers!<`, code spans and links. Raw HTML is not interpreted; it stays
+ * text, which React escapes when rendering.
+ */
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*)$/
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+/** `>!spoiler!<` at the start of a line is inline markup, not a quote. */
+const SPOILER_LINE = /^ {0,3}>!.*!</
+/** Quotes and lists nested deeper than this, and inline markup too, are kept as text. */
+const MAX_NESTING_DEPTH = 16
+
+function isBlank(line: string): boolean {
+  return line.trim() === ''
+}
+
+/** `text` without trailing `chars`; a loop, since a regex like `/[ \t]+$/` backtracks quadratically. */
+function trimEndOf(text: string, chars = ' \t'): string {
+  let end = text.length
+  while (end > 0 && chars.includes(text[end - 1])) end--
+  return text.slice(0, end)
+}
+
+/** Heading text without its optional closing run of `#`s, which must follow whitespace. */
+function headingText(text: string): string {
+  const trimmed = trimEndOf(text)
+  const closing = trimEndOf(trimmed, '#')
+  if (closing === trimmed || (closing !== '' && !' \t'.includes(closing[closing.length - 1]))) return trimmed
+  return trimEndOf(closing)
+}
+
+/** A paragraph line without the two or more spaces or backslash ending it in a hard break, if it does. */
+function hardBreakText(line: string): string | undefined {
+  if (line.endsWith('\\')) return line.slice(0, -1)
+  const text = trimEndOf(line, ' ')
+  return line.length - text.length >= 2 ? text : undefined
+}
+
+function indentation(line: string): number {
+  return line.match(/^ */)![0].length
+}
+
+function isQuote(line: string): boolean {
+  return /^ {0,3}>/.test(line) && !SPOILER_LINE.test(line)
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_DELIMITER.test(lines[index + 1])
+}
+
+/** Whether a line starts a block at `depth`, ending the paragraph before it. */
+function startsBlock(lines: string[], index: number, depth: number): boolean {
+  const line = lines[index]
+  const nested = depth < MAX_NESTING_DEPTH && (isQuote(line) || LIST_ITEM.test(line))
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || nested || isTableStart(lines, index)
+}
+
+function splitTableRow(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += row[i]
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseBlocks(lines: string[], baseUrl: string | undefined, depth = 0): RichBlock[] {
+  const blocks: RichBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (isBlank(line)) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const [, marker, language] = fence
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`)
+      const code: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++])
+      i++
+      blocks.push({ type: 'code', text: code.join('\n'), ...(language ? { language } : {}) })
+      continue
+    }
+
+    if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = []
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || isBlank(lines[i]))) {
+        code.push(lines[i++].replace(/^( {4}|\t)/, ''))
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop()
+      blocks.push({ type: 'code', text: code.join('\n') })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(headingText(heading[2]), baseUrl) })
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (depth < MAX_NESTING_DEPTH && isQuote(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && isQuote(lines[i])) {
+        quoted.push(lines[i++].replace(/^ {0,3}> ?/, ''))
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, baseUrl, depth + 1) })
+      continue
+    }
+
+    if (depth < MAX_NESTING_DEPTH && LIST_ITEM.test(line)) {
+      const ordered = /\d/.test(line.match(LIST_ITEM)![2])
+      const items: RichBlock[][] = []
+      let start: number | undefined
+
+      while (i < lines.length) {
+        const marker = lines[i].match(LIST_ITEM)
+        if (!marker || /\d/.test(marker[2]) !== ordered) break
+        if (ordered && start === undefined) start = parseInt(marker[2], 10)
+
+        // Continuation lines are indented to the item's text
+        const contentIndent = marker[1].length + marker[2].length + Math.min(marker[3].length || 1, 4)
+        const itemLines = [lines[i].slice(marker[0].length)]
+        i++
+
+        while (i < lines.length) {
+          const next = lines[i]
+          if (isBlank(next)) {
+            // Look past the whole run of blank lines once, rather than from each of them
+            let following = i + 1
+            while (following < lines.length && isBlank(lines[following])) following++
+            if (following === lines.length || indentation(lines[following]) < contentIndent) break
+            while (i < following) {
+              itemLines.push('')
+              i++
+            }
+            continue
+          } else if (indentation(next) >= contentIndent) {
+            itemLines.push(next.slice(contentIndent))
+          } else if (!isBlank(itemLines[itemLines.length - 1]) && !startsBlock(lines, i, depth)) {
+            // Lazy continuation of the item's paragraph
+            itemLines.push(next.trim())
+          } else {
+            break
+          }
+          i++
+        }
+
+        items.push(parseBlocks(itemLines, baseUrl, depth + 1))
+        // A blank line between items still continues the list
+        while (i < lines.length && isBlank(lines[i]) && lines[i + 1] !== undefined && LIST_ITEM.test(lines[i + 1])) i++
+      }
+
+      blocks.push({ type: 'list', ordered, ...(ordered && start !== 1 ? { start } : {}), items })
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line)
+      const align = splitTableRow(lines[i + 1]).map((cell) => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center'
+        if (cell.endsWith(':')) return 'right'
+        if (cell.startsWith(':')) return 'left'
+        return null
+      })
+      const rows: RichInline[][][] = []
+      i += 2
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i++])
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '', baseUrl)))
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map((cell) => parseInline(cell, baseUrl)), rows })
+      continue
+    }
+
+    const paragraph = [line]
+    i++
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i, depth)) paragraph.push(lines[i++])
+
+    // A line ending in two spaces or a backslash breaks the line; other newlines are spaces
+    const text = paragraph
+      .map((part, index) => {
+        const broken = index < paragraph.length - 1 ? hardBreakText(part) : undefined
+        return broken === undefined ? `${part.trim()} ` : `${broken.trim()}\n`
+      })
+      .join('')
+      .trim()
+    blocks.push({ type: 'paragraph', children: parseInline(text, baseUrl) })
+  }
+
+  return blocks
+}
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/
+
+function appendText(nodes: RichInline[], text: string) {
+  const last = nodes[nodes.length - 1]
+  if (last?.type === 'text') {
+    last.text += text
+  } else if (text) {
+    nodes.push({ type: 'text', text })
+  }
+}
+
+/** Index past the code span opening at `start`, or -1 when it is never closed. */
+function codeSpanEnd(text: string, start: number): number {
+  const run = text.slice(start).match(/^`+/)![0]
+  let index = start + run.length
+  while ((index = text.indexOf(run, index)) !== -1) {
+    // The closing run must be exactly as long as the opening one
+    if (text[index + run.length] !== '`' && text[index - 1] !== '`') return index + run.length
+    index += run.length
+  }
+  return -1
+}
+
+/**
+ * Where the run of `delimiter` closing the span that opens at `from` starts, or
+ * -1. Code spans and escapes are skipped, and the closing run must follow text.
+ */
+function findClosing(text: string, from: number, delimiter: string): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++
+    } else if (text[index] === '`') {
+      const end = codeSpanEnd(text, index)
+      if (end !== -1) index = end - 1
+    } else if (text.startsWith(delimiter, index) && !/\s/.test(text[index - 1])) {
+      const run = text.slice(index).match(new RegExp(`^\\${delimiter[0]}+`))![0].length
+      // A single `*` doesn't close on half of a `**`
+      if (delimiter.length === 1 && run !== 1) {
+        index += run - 1
+        continue
+      }
+      // Underscores inside words aren't emphasis
+      if (delimiter[0] === '_' && /[A-Za-z0-9]/.test(text[index + run] ?? '')) continue
+      // In `***`, the inner span closes first and `**` takes the end of the run
+      return index + run - delimiter.length
+    }
+  }
+  return -1
+}
+
+/** Index of the `]` matching each `[` in `text`, skipping escaped brackets. */
+function matchBrackets(text: string): Map<number, number> {
+  const matches = new Map<number, number>()
+  const open: number[] = []
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\\') index++
+    else if (text[index] === '[') open.push(index)
+    else if (text[index] === ']' && open.length > 0) matches.set(open.pop()!, index)
+  }
+  return matches
+}
+
+/** Parse `[text](url)` opening at `start` into its text, target and end, if it is one. */
+function parseLink(text: string, start: number, brackets: Map<number, number>): { label: string; href: string; end: number } | undefined {
+  const index = brackets.get(start)
+  if (index === undefined || text[index + 1] !== '(') return undefined
+
+  const target = text.slice(index + 2).match(/^\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/)
+  if (!target) return undefined
+
+  return { label: text.slice(start + 1, index), href: target[1], end: index + 2 + target[0].length }
+}
+
+/**
+ * Parse inline markup. Spans nest up to MAX_NESTING_DEPTH, deeper markup is
+ * kept as text, and neither links nor spoilers, which are interactive too,
+ * are parsed inside link text.
+ */
+function parseInline(text: string, baseUrl: string | undefined, depth = 0, inLink = false): RichInline[] {
+  const nodes: RichInline[] = []
+  const nested = depth < MAX_NESTING_DEPTH
+  let index = 0
+  // Where the search for each closing delimiter first came up empty; a later search would too
+  const unclosedFrom = new Map<string, number>()
+  let brackets: Map<number, number> | undefined
+
+  const wrap = (type: 'emphasis' | 'strong' | 'strikethrough' | 'spoiler', open: string, close: string): boolean => {
+    if (!text.startsWith(open, index) || /\s/.test(text[index + open.length] ?? ' ')) return false
+    // Underscores inside words aren't emphasis
+    if (open[0] === '_' && /[A-Za-z0-9]/.test(text[index - 1] ?? '')) return false
+    const from = index + open.length + 1
+    if (from >= (unclosedFrom.get(close) ?? Infinity)) return false
+    const end = findClosing(text, from, close)
+    if (end === -1) {
+      unclosedFrom.set(close, from)
+      return false
+    }
+    nodes.push({ type, children: parseInline(text.slice(index + open.length, end), baseUrl, depth + 1, inLink) })
+    index = end + close.length
+    return true
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+
+    if (char === '\\' && PUNCTUATION.test(text[index + 1] ?? '')) {
+      appendText(nodes, text[index + 1])
+      index += 2
+      continue
+    }
+
+    if (char === '\n') {
+      nodes.push({ type: 'break' })
+      index++
+      continue
+    }
+
+    if (char === '`') {
+      const end = codeSpanEnd(text, index)
+      const run = text.slice(index).match(/^`+/)![0].length
+      if (end === -1) {
+        appendText(nodes, text.slice(index, index + run))
+        index += run
+      } else {
+        const code = text.slice(index + run, end - run)
+        nodes.push({ type: 'code', text: /^ .*[^ ].* $/.test(code) ? code.slice(1, -1) : code })
+        index = end
+      }
+      continue
+    }
+
+    if (nested && !inLink && text.startsWith('>!', index) && index + 2 < (unclosedFrom.get('!<') ?? Infinity)) {
+      const end = text.indexOf('!<', index + 2)
+      if (end === -1) unclosedFrom.set('!<', index + 2)
+      if (end > index + 2) {
+        nodes.push({ type: 'spoiler', children: parseInline(text.slice(index + 2, end), baseUrl, depth + 1, inLink) })
+        index = end + 2
+        continue
+      }
+    }
+
+    if (nested && !inLink && (char === '[' || (char === '!' && text[index + 1] === '['))) {
+      brackets ??= matchBrackets(text)
+      const link = parseLink(text, char === '!' ? index + 1 : index, brackets)
+      if (link) {
+        const href = safeHref(link.href, baseUrl)
+        const children = parseInline(link.label, baseUrl, depth + 1, true)
+        // Unsafe targets and images keep their text; images link to the file
+        if (href) {
+          nodes.push({ type: 'link', href, children })
+        } else {
+          children.forEach((child) => child.type === 'text' ? appendText(nodes, child.text) : nodes.push(child))
+        }
+        index = link.end
+        continue
+      }
+    }
+
+    if (!inLink && char === '<') {
+      const autolink = text.slice(index).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i)
+      const href = autolink && safeHref(autolink[1])
+      if (autolink && href) {
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: autolink[1] }] })
+        index += autolink[0].length
+        continue
+      }
+    }
+
+    if (nested && (
+      wrap('strikethrough', '~~', '~~') ||
+      wrap('strong', '**', '**') ||
+      wrap('strong', '__', '__') ||
+      wrap('emphasis', '*', '*') ||
+      wrap('emphasis', '_', '_')
+    )) {
+      continue
+    }
+
+    appendText(nodes, char)
+    index++
+  }
+
+  return nodes
+}
+
+/**
+ * Convert Markdown to rich content. The result is safe to render: link targets
+ * are limited to http(s) and mailto URLs, with relative ones resolved against
+ * `baseUrl` when given, and raw HTML is kept as text.
+ */
+export function markdownToRichContent(markdown: string, baseUrl?: string): RichContent {
+  return parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), baseUrl)
+}
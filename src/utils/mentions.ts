@@ -0,0 +1,5 @@
+/**
+ * An `@username` mention. Shared by the comment renderer, which styles
+ * mentions, and V2EX reply threading, which resolves them to earlier replies.
+ */
+export const MENTION_PATTERN = /@[A-Za-z0-9_-]+/
@@ -0,0 +1,266 @@
+import type { RichBlock, RichContent, RichInline } from '../types'
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+/**
+ * Decode HTML entities in one pass, so `&amp;lt;` becomes `&lt;` rather than `<`.
+ * Unknown named entities and invalid code points are left as they are.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+
+    const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1))
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+  })
+}
+
+/** Elements that end the current paragraph; their content starts a new one. */
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'blockquote', 'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'table', 'tr', 'section', 'article', 'aside', 'figure', 'details', 'summary'
+])
+
+const CONTAINER_TAGS = new Map<string, 'emphasis' | 'strong'>([
+  ['i', 'emphasis'],
+  ['em', 'emphasis'],
+  ['b', 'strong'],
+  ['strong', 'strong']
+])
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+/** Inline elements nested deeper than this are dropped and their text kept. */
+const MAX_INLINE_DEPTH = 16
+
+/** Resolve a link target, or undefined for relative links without a base and script-like protocols. */
+export function safeHref(raw: string, baseUrl?: string): string | undefined {
+  try {
+    const url = new URL(decodeHtmlEntities(raw).trim(), baseUrl)
+    return LINK_PROTOCOLS.includes(url.protocol) ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? match[1] ?? match[2] ?? match[3] : undefined
+}
+
+function appendText(children: RichInline[], text: string) {
+  if (!text) return
+  const last = children[children.length - 1]
+  if (last?.type === 'text') {
+    last.text += text
+  } else {
+    children.push({ type: 'text', text })
+  }
+}
+
+function isBlank(node: RichInline): boolean {
+  switch (node.type) {
+    case 'text':
+      return node.text.trim() === ''
+    case 'code':
+      return node.text === ''
+    case 'break':
+      return false
+    default:
+      return node.children.every(isBlank)
+  }
+}
+
+/** Drop whitespace at the edges of a paragraph and around line breaks. */
+function trimParagraph(children: RichInline[]): RichInline[] {
+  const trimmed = children.filter((node) => node.type === 'text' || !isBlank(node))
+
+  trimmed.forEach((node, index) => {
+    if (node.type !== 'text') return
+    const previous = trimmed[index - 1]
+    const next = trimmed[index + 1]
+    if (!previous || previous.type === 'break') node.text = node.text.replace(/^\s+/, '')
+    if (!next || next.type === 'break') node.text = node.text.replace(/\s+$/, '')
+  })
+
+  const kept = trimmed.filter((node) => node.type !== 'text' || node.text !== '')
+  // Leading and trailing breaks only add empty lines
+  while (kept[0]?.type === 'break') kept.shift()
+  while (kept[kept.length - 1]?.type === 'break') kept.pop()
+  return kept
+}
+
+/**
+ * Convert an HTML fragment from an upstream platform to rich content.
+ *
+ * Only paragraphs, line breaks, links, emphasis, strong text and code survive;
+ * every other element is dropped and its text kept, and script and style
+ * bodies are removed. Links keep only http(s) and mailto targets, with
+ * relative ones resolved against `baseUrl` when given.
+ */
+export function htmlToRichContent(html: string, baseUrl?: string): RichContent {
+  const blocks: RichBlock[] = []
+  let paragraph: RichInline[] = []
+  // Inline elements open in the current paragraph, innermost last
+  let open: { tag: string; children: RichInline[]; code?: { text: string } }[] = []
+  // Inline elements left unopened past MAX_INLINE_DEPTH, whose closing tags are skipped
+  let overflow = 0
+  // Text of an open <pre>, which keeps its whitespace and drops its markup
+  let pre: string | undefined
+
+  const endParagraph = () => {
+    const children = trimParagraph(paragraph)
+    if (children.length > 0) blocks.push({ type: 'paragraph', children })
+    paragraph = []
+    open = []
+    overflow = 0
+  }
+
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|template)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+
+  const token = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+|<)/g
+  let match: RegExpExecArray | null
+
+  while ((match = token.exec(cleaned)) !== null) {
+    const [, closing, rawTag, attributes, text] = match
+    const innermost = open[open.length - 1]
+
+    if (text !== undefined) {
+      const decoded = decodeHtmlEntities(text)
+      if (pre !== undefined) {
+        pre += decoded
+      } else if (innermost?.code) {
+        innermost.code.text += decoded
+      } else {
+        appendText(innermost?.children ?? paragraph, decoded.replace(/\s+/g, ' '))
+      }
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+
+    if (tag === 'pre') {
+      if (!closing) {
+        endParagraph()
+        pre = ''
+      } else if (pre !== undefined) {
+        const code = pre.replace(/^\n/, '').replace(/\s+$/, '')
+        if (code) blocks.push({ type: 'code', text: code })
+        pre = undefined
+      }
+      continue
+    }
+
+    if (pre !== undefined) {
+      if (tag === 'br') pre += '\n'
+      continue
+    }
+
+    if (BLOCK_TAGS.has(tag)) {
+      endParagraph()
+      continue
+    }
+
+    const inline = tag === 'code' || tag === 'a' || CONTAINER_TAGS.has(tag)
+
+    if (closing) {
+      if (inline && overflow > 0) {
+        overflow--
+        continue
+      }
+      // Close the innermost matching element, along with anything left open inside it
+      const index = open.map((element) => element.tag).lastIndexOf(tag)
+      if (index !== -1) open.length = index
+      continue
+    }
+
+    // Markup inside inline code is dropped, its text kept
+    if (innermost?.code) continue
+
+    if (inline && open.length >= MAX_INLINE_DEPTH) {
+      overflow++
+      continue
+    }
+
+    const children = innermost?.children ?? paragraph
+
+    if (tag === 'br') {
+      children.push({ type: 'break' })
+    } else if (tag === 'code') {
+      const node = { type: 'code' as const, text: '' }
+      children.push(node)
+      open.push({ tag, children: [], code: node })
+    } else if (tag === 'a') {
+      const href = safeHref(readAttribute(attributes, 'href') ?? '', baseUrl)
+      // Links can't nest, and unsafe ones are reduced to their text
+      if (!href || open.some((element) => element.tag === 'a')) continue
+      const node = { type: 'link' as const, href, children: [] as RichInline[] }
+      children.push(node)
+      open.push({ tag, children: node.children })
+    } else if (CONTAINER_TAGS.has(tag)) {
+      const node = { type: CONTAINER_TAGS.get(tag)!, children: [] as RichInline[] }
+      children.push(node)
+      open.push({ tag, children: node.children })
+    }
+  }
+
+  // An unclosed <pre> still holds its code
+  if (pre?.trim()) blocks.push({ type: 'code', text: pre.replace(/^\n/, '').replace(/\s+$/, '') })
+  endParagraph()
+
+  return blocks
+}
+
+function inlineText(nodes: RichInline[]): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text
+      case 'break':
+        return '\n'
+      default:
+        return inlineText(node.children)
+    }
+  }).join('')
+}
+
+function blockText(block: RichBlock): string {
+  switch (block.type) {
+    case 'code':
+      return block.text
+    case 'rule':
+      return '---'
+    case 'quote':
+      return richContentToText(block.children)
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${(block.start ?? 1) + index}.` : '-'} ${richContentToText(item)}`)
+        .join('\n')
+    case 'table':
+      return [block.header, ...block.rows].map((row) => row.map(inlineText).join(' | ')).join('\n')
+    default:
+      return inlineText(block.children)
+  }
+}
+
+/** Plain text of rich content, with blank lines between blocks. */
+export function richContentToText(content: RichContent): string {
+  return content.map(blockText).join('\n\n')
+}
+
+/** Whether rich content holds anything its plain text would lose. */
+export function hasRichMarkup(content: RichContent): boolean {
+  return content.length > 1 || content.some((block) =>
+    block.type !== 'paragraph' || block.children.some((node) => node.type !== 'text')
+  )
+}
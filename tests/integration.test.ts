@@ -283,14 +283,15 @@ describe('Integration Tests', () => {
       expect(endTime - startTime).toBeLessThan(100)
 
       expect(Object.keys(result)).toHaveLength(3)
-      expect(result.v2ex).toHaveLength(1)
-      expect(result.reddit).toHaveLength(1)
-      expect(result.hackernews).toHaveLength(1)
+      const [v2ex, reddit, hackernews] = discussions.map(d => result[d.url])
+      expect(v2ex).toHaveLength(1)
+      expect(reddit).toHaveLength(1)
+      expect(hackernews).toHaveLength(1)
 
       // Verify platform-specific properties are set correctly
-      expect(result.v2ex[0].platform).toBe('v2ex')
-      expect(result.reddit[0].platform).toBe('reddit')
-      expect(result.hackernews[0].platform).toBe('hackernews')
+      expect(v2ex[0].platform).toBe('v2ex')
+      expect(reddit[0].platform).toBe('reddit')
+      expect(hackernews[0].platform).toBe('hackernews')
     })
   })
 
@@ -335,14 +336,13 @@ describe('Integration Tests', () => {
 
       const result = await fetchAllExternalComments(discussions)
 
-      expect(result.v2ex).toHaveLength(1)
-      expect(result.reddit).toEqual([]) // Should be empty on failure
+      expect(result['https://v2ex.com/t/12345']).toHaveLength(1)
+      expect(result['https://reddit.com/r/test/comments/123/']).toEqual([]) // Should be empty on failure
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining('Error fetching Reddit comments:'),
         expect.objectContaining({
-          url: expect.any(String),
-          error: expect.any(String),
-          timestamp: expect.any(String)
+          code: 'UPSTREAM_ERROR',
+          message: 'API rate limit exceeded'
         })
       )
     })
@@ -1,4 +1,5 @@
 // Jest setup file for external comments package tests
+import { resetRequestScheduler } from '../src/utils/fetch-comments'
 
 // Mock fetch globally for tests
 global.fetch = jest.fn()
@@ -16,6 +17,8 @@ const originalConsoleWarn = console.warn
 beforeEach(() => {
   // Reset fetch mock before each test
   ;(fetch as jest.MockedFunction<typeof fetch>).mockClear()
+  // Host limits and shared requests outlive a test; start each one without them
+  resetRequestScheduler()
 })
 
 afterEach(() => {
@@ -0,0 +1,194 @@
+import { mkdtemp, rm, readdir } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createMemoryCache, withCache } from '../../src/utils/cache'
+import { createFileCache } from '../../src/utils/file-cache'
+import { fetchCommentsForPlatform } from '../../src/utils/fetch-comments'
+import type { CacheStore } from '../../src/types'
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>
+
+describe('createMemoryCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = createMemoryCache({ maxEntries: 2 })
+
+    await cache.set('a', { value: 1, storedAt: 0 })
+    await cache.set('b', { value: 2, storedAt: 0 })
+    await cache.get('a')
+    await cache.set('c', { value: 3, storedAt: 0 })
+
+    expect(await cache.get('a')).toEqual({ value: 1, storedAt: 0 })
+    expect(await cache.get('b')).toBeUndefined()
+    expect(await cache.get('c')).toEqual({ value: 3, storedAt: 0 })
+  })
+})
+
+describe('createFileCache', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'discussing-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should persist entries as JSON files', async () => {
+    const cache = createFileCache({ directory: join(directory, 'nested') })
+
+    await cache.set('comments:hackernews:https://news.ycombinator.com/item?id=1', { value: [{ id: 'hn-1' }], storedAt: 1000 })
+
+    // A second store over the same directory sees the entry, as after a restart
+    const reopened = createFileCache({ directory: join(directory, 'nested') })
+    expect(await reopened.get('comments:hackernews:https://news.ycombinator.com/item?id=1')).toEqual({
+      value: [{ id: 'hn-1' }],
+      storedAt: 1000
+    })
+    expect(await readdir(join(directory, 'nested'))).toHaveLength(1)
+  })
+
+  it('should treat missing entries as misses and delete entries', async () => {
+    const cache = createFileCache({ directory })
+
+    expect(await cache.get('missing')).toBeUndefined()
+
+    await cache.set('key', { value: 'x', storedAt: 0 })
+    await cache.delete('key')
+    expect(await cache.get('key')).toBeUndefined()
+  })
+})
+
+describe('withCache', () => {
+  const now = new Date('2024-01-01T00:00:00.000Z').getTime()
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.setSystemTime(now)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should call load directly without a cache', async () => {
+    const load = jest.fn(async () => 'fresh')
+
+    expect(await withCache('key', {}, load)).toBe('fresh')
+    expect(await withCache('key', {}, load)).toBe('fresh')
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should serve fresh entries without loading', async () => {
+    const cache = createMemoryCache()
+    const load = jest.fn(async () => 'fresh')
+
+    await withCache('key', { cache, cacheTimeout: 60 }, load)
+    jest.setSystemTime(now + 59_000)
+
+    expect(await withCache('key', { cache, cacheTimeout: 60 }, load)).toBe('fresh')
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('should serve stale entries while refreshing them in the background', async () => {
+    const cache = createMemoryCache()
+    await cache.set('key', { value: 'stale', storedAt: now - 120_000 })
+    let finishRefresh: (value: string) => void = () => undefined
+    const load = jest.fn(() => new Promise<string>((resolve) => { finishRefresh = resolve }))
+
+    const options = { cache, cacheTimeout: 60, staleWhileRevalidate: 300 }
+    expect(await withCache('key', options, load)).toBe('stale')
+    // A second caller during the refresh doesn't start another one
+    expect(await withCache('key', options, load)).toBe('stale')
+    expect(load).toHaveBeenCalledTimes(1)
+
+    finishRefresh('refreshed')
+    await jest.runAllTimersAsync()
+
+    expect(await cache.get('key')).toEqual({ value: 'refreshed', storedAt: now })
+    expect(await withCache('key', options, load)).toBe('refreshed')
+  })
+
+  it('should load entries past the stale window before answering', async () => {
+    const cache = createMemoryCache()
+    await cache.set('key', { value: 'expired', storedAt: now - 1_000_000 })
+
+    const result = await withCache('key', { cache, cacheTimeout: 60, staleWhileRevalidate: 300 }, async () => 'fresh')
+
+    expect(result).toBe('fresh')
+  })
+
+  it('should not cache failed loads', async () => {
+    const cache = createMemoryCache()
+
+    await expect(withCache('key', { cache }, async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    expect(await cache.get('key')).toBeUndefined()
+  })
+
+  it('should load directly when a store fails', async () => {
+    const cache: CacheStore = {
+      get: () => { throw new Error('store down') },
+      set: () => { throw new Error('store down') },
+      delete: () => undefined
+    }
+
+    expect(await withCache('key', { cache }, async () => 'fresh')).toBe('fresh')
+    expect(console.warn).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('fetchCommentsForPlatform with a cache', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should answer repeated calls from the cache', async () => {
+    const cache = createMemoryCache()
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 1, member: { username: 'a' }, content: 'Reply', created: 1672531200 }]
+    } as Response)
+
+    const discussion = { platform: 'v2ex', url: 'https://v2ex.com/t/123' }
+    const first = await fetchCommentsForPlatform(discussion, { cache })
+    const second = await fetchCommentsForPlatform(discussion, { cache })
+
+    expect(second).toEqual(first)
+    expect(first).toHaveLength(1)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not serve a result cached with other options', async () => {
+    const cache = createMemoryCache()
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { id: 1, member: { username: 'a' }, content: 'Question', created: 1672531200 },
+        { id: 2, member: { username: 'b' }, content: '@a #1 Answer', created: 1672531260 }
+      ]
+    } as Response)
+
+    const discussion = { platform: 'v2ex', url: 'https://v2ex.com/t/123' }
+    const flat = await fetchCommentsForPlatform(discussion, { cache })
+    const threaded = await fetchCommentsForPlatform(discussion, { cache, v2exThreading: true })
+    const threadedAgain = await fetchCommentsForPlatform(discussion, { cache, v2exThreading: true })
+
+    expect(flat).toHaveLength(2)
+    expect(threaded).toHaveLength(1)
+    expect(threadedAgain).toEqual(threaded)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    mockFetch.mockReset()
+  })
+
+  it('should skip the cache when cacheTimeout is 0', async () => {
+    const cache = createMemoryCache()
+    mockFetch.mockResolvedValue({ ok: true, json: async () => [] } as unknown as Response)
+
+    const discussion = { platform: 'v2ex', url: 'https://v2ex.com/t/123' }
+    await fetchCommentsForPlatform(discussion, { cache, cacheTimeout: 0 })
+    await fetchCommentsForPlatform(discussion, { cache, cacheTimeout: 0 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    mockFetch.mockReset()
+  })
+})
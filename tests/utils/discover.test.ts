@@ -0,0 +1,83 @@
+import { discoverDiscussions } from '../../src/utils/discover'
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>
+
+const algoliaResponse = (hits: any[]) => ({
+  ok: true,
+  json: async () => ({ hits })
+} as Response)
+
+const redditInfoResponse = (posts: any[]) => ({
+  ok: true,
+  json: async () => ({ data: { children: posts.map(data => ({ kind: 't3', data })) } })
+} as Response)
+
+describe('discoverDiscussions', () => {
+  const articleUrl = 'https://blog.example.com/posts/hello-world'
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should query HN Algolia and Reddit for the article URL', async () => {
+    mockFetch.mockResolvedValueOnce(algoliaResponse([]))
+    mockFetch.mockResolvedValueOnce(redditInfoResponse([]))
+
+    await discoverDiscussions(articleUrl)
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(articleUrl)}&restrictSearchableAttributes=url&tags=story`,
+      expect.any(Object)
+    )
+    expect(mockFetch).toHaveBeenCalledWith(
+      `https://www.reddit.com/api/info.json?url=${encodeURIComponent(articleUrl)}`,
+      expect.any(Object)
+    )
+  })
+
+  it('should rank threads by comment count, then score', async () => {
+    mockFetch.mockResolvedValueOnce(algoliaResponse([
+      { objectID: '100', url: 'http://www.blog.example.com/posts/hello-world/?utm_source=hn', num_comments: 40, points: 120 },
+      { objectID: '200', url: 'https://blog.example.com/posts/other', num_comments: 500, points: 900 }
+    ]))
+    mockFetch.mockResolvedValueOnce(redditInfoResponse([
+      { permalink: '/r/programming/comments/abc/hello_world/', num_comments: 87, score: 10 },
+      { permalink: '/r/typescript/comments/def/hello_world/', num_comments: 40, score: 300 },
+      { permalink: '/r/empty/comments/ghi/hello_world/', num_comments: 0, score: 1 }
+    ]))
+
+    const result = await discoverDiscussions(articleUrl)
+
+    expect(result).toEqual([
+      { platform: 'reddit', url: 'https://www.reddit.com/r/programming/comments/abc/hello_world/' },
+      { platform: 'reddit', url: 'https://www.reddit.com/r/typescript/comments/def/hello_world/' },
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=100' }
+    ])
+  })
+
+  it('should honor limit and minComments', async () => {
+    mockFetch.mockResolvedValueOnce(algoliaResponse([
+      { objectID: '1', url: articleUrl, num_comments: 3, points: 5 },
+      { objectID: '2', url: articleUrl, num_comments: 30, points: 50 }
+    ]))
+    mockFetch.mockResolvedValueOnce(redditInfoResponse([
+      { permalink: '/r/a/comments/x/t/', num_comments: 0, score: 1 }
+    ]))
+
+    const result = await discoverDiscussions(articleUrl, { limit: 1, minComments: 0 })
+
+    expect(result).toEqual([{ platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=2' }])
+  })
+
+  it('should skip a failing source instead of throwing', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+    mockFetch.mockResolvedValueOnce(redditInfoResponse([
+      { permalink: '/r/a/comments/x/t/', num_comments: 2, score: 1 }
+    ]))
+
+    const result = await discoverDiscussions(articleUrl)
+
+    expect(result).toEqual([{ platform: 'reddit', url: 'https://www.reddit.com/r/a/comments/x/t/' }])
+    expect(console.warn).toHaveBeenCalled()
+  })
+})
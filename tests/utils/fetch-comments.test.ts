@@ -2,10 +2,29 @@ import {
   fetchV2exComments,
   fetchRedditComments,
   fetchHackerNewsComments,
+  fetchLobstersComments,
+  fetchGitHubComments,
+  fetchMastodonComments,
+  fetchBlueskyComments,
+  fetchDiscourseComments,
+  fetchLemmyComments,
   fetchCommentsForPlatform,
-  fetchAllExternalComments
+  fetchAllExternalComments,
+  fetchCommentsResult,
+  fetchAllCommentsResults,
+  fetchThreadResult,
+  fetchAllThreadResults,
+  fetchCommentCountResult,
+  fetchCommentCounts,
+  DiscussionFetchError,
+  getDiscussionKey,
+  registerPlatform,
+  unregisterPlatform,
+  getPlatform,
+  getRegisteredPlatforms,
+  detectPlatform
 } from '../../src/utils/fetch-comments'
-import type { ExternalDiscussion, Comment } from '../../src/types'
+import type { ExternalDiscussion, Comment, PlatformAdapter } from '../../src/types'
 
 // Mock fetch
 const mockFetch = fetch as jest.MockedFunction<typeof fetch>
@@ -97,6 +116,119 @@ describe('fetchV2exComments', () => {
   })
 })
 
+describe('V2EX API 2.0', () => {
+  const reply = (id: number) => ({
+    id,
+    member: { username: `user${id}`, avatar: `https://cdn.v2ex.com/avatar/${id}.png` },
+    content: `Reply ${id}`,
+    created: 1234567890
+  })
+  const page = (ids: number[], pages: number) =>
+    ({ ok: true, json: async () => ({ success: true, message: '', result: ids.map(reply), pagination: { per_page: 2, total: 3, pages } }) } as Response)
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should page through every reply with the token', async () => {
+    mockFetch
+      .mockResolvedValueOnce(page([1, 2], 2))
+      .mockResolvedValueOnce(page([3], 2))
+
+    const result = await fetchV2exComments('https://v2ex.com/t/12345', { v2exToken: 'token' })
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://www.v2ex.com/api/v2/topics/12345/replies?p=1', expect.objectContaining({
+      headers: expect.objectContaining({ 'Authorization': 'Bearer token' })
+    }))
+    expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://www.v2ex.com/api/v2/topics/12345/replies?p=2', expect.any(Object))
+    expect(result.map((comment) => comment.id)).toEqual(['v2ex-1', 'v2ex-2', 'v2ex-3'])
+    expect(result[0]).toEqual({
+      id: 'v2ex-1',
+      author: 'user1',
+      content: 'Reply 1',
+      timestamp: '2009-02-13T23:31:30.000Z',
+      platform: 'v2ex',
+      avatar: 'https://cdn.v2ex.com/avatar/1.png'
+    })
+  })
+
+  it('should report an unsuccessful response as an error', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: false, message: 'Invalid token' }) } as Response)
+
+    const result = await fetchCommentsResult({ platform: 'v2ex', url: 'https://v2ex.com/t/12345' }, { v2exToken: 'bad' })
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error.message).toContain('Invalid token')
+  })
+
+  it('should read the comment count from the topic', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true, result: { id: 12345, title: 'Topic', replies: 42 } }) } as Response)
+
+    const result = await fetchCommentCountResult({ platform: 'v2ex', url: 'https://v2ex.com/t/12345' }, { v2exToken: 'token' })
+
+    expect(result).toEqual({ ok: true, data: 42 })
+    expect(mockFetch).toHaveBeenCalledWith('https://www.v2ex.com/api/v2/topics/12345', expect.any(Object))
+  })
+})
+
+describe('V2EX reply threading', () => {
+  const reply = (id: number, author: string, content: string) => ({ id, member: { username: author }, content, created: 1234567890 })
+  const ids = (comments: Comment[]): unknown[] =>
+    comments.map((comment) => comment.replies?.length ? [comment.id, ids(comment.replies)] : comment.id)
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should nest replies under the floor they mention', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        reply(1, 'alice', 'First!'),
+        reply(2, 'bob', 'Unrelated'),
+        reply(3, 'carol', '@alice #1 agreed'),
+        reply(4, 'alice', '@carol thanks'),
+        reply(5, 'dave', 'see @alice #1 too'),
+        reply(6, 'erin', '@nobody hello')
+      ]
+    } as Response)
+
+    const result = await fetchV2exComments('https://v2ex.com/t/12345', { v2exThreading: true })
+
+    expect(ids(result)).toEqual([
+      ['v2ex-1', [['v2ex-3', ['v2ex-4']], 'v2ex-5']],
+      'v2ex-2',
+      'v2ex-6'
+    ])
+  })
+
+  it('should fall back to the mentioned user when the floor number is off', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        reply(1, 'alice', 'First'),
+        reply(2, 'bob', 'Second'),
+        reply(3, 'carol', '@Bob #1 floor shifted by a deleted reply')
+      ]
+    } as Response)
+
+    const result = await fetchV2exComments('https://v2ex.com/t/12345', { v2exThreading: true })
+
+    expect(ids(result)).toEqual(['v2ex-1', ['v2ex-2', ['v2ex-3']]])
+  })
+
+  it('should leave replies flat by default', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [reply(1, 'alice', 'First'), reply(2, 'bob', '@alice #1 hi')]
+    } as Response)
+
+    const result = await fetchV2exComments('https://v2ex.com/t/12345')
+
+    expect(ids(result)).toEqual(['v2ex-1', 'v2ex-2'])
+  })
+})
+
 describe('fetchRedditComments', () => {
   beforeEach(() => {
     mockFetch.mockClear()
@@ -336,6 +468,197 @@ describe('fetchRedditComments', () => {
   })
 })
 
+describe('Reddit app-only OAuth', () => {
+  const thread = [{ data: { children: [] } }, { data: { children: [] } }]
+  const tokenResponse = (token: string, expiresIn = 86400) =>
+    ({ ok: true, json: async () => ({ access_token: token, token_type: 'bearer', expires_in: expiresIn }) } as Response)
+  const threadResponse = () => ({ ok: true, json: async () => thread } as Response)
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should fetch a token and read the thread from oauth.reddit.com', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse('token-1'))
+      .mockResolvedValueOnce(threadResponse())
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/123/', {
+      redditCredentials: { clientId: 'app-a', clientSecret: 'secret' }
+    })
+
+    expect(result).toEqual([])
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://www.reddit.com/api/v1/access_token', expect.objectContaining({
+      method: 'POST',
+      body: 'grant_type=client_credentials',
+      headers: expect.objectContaining({ 'Authorization': `Basic ${btoa('app-a:secret')}` })
+    }))
+    expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://oauth.reddit.com/r/test/comments/123.json', expect.objectContaining({
+      headers: expect.objectContaining({ 'Authorization': 'Bearer token-1' })
+    }))
+  })
+
+  it('should reuse a cached token until it is about to expire', async () => {
+    jest.useFakeTimers()
+    try {
+      const options = { redditCredentials: { clientId: 'app-b', clientSecret: 'secret' } }
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('token-1', 3600))
+        .mockResolvedValueOnce(threadResponse())
+        .mockResolvedValueOnce(threadResponse())
+
+      await fetchRedditComments('https://reddit.com/r/test/comments/123/', options)
+      await fetchRedditComments('https://reddit.com/r/test/comments/456/', options)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+
+      jest.setSystemTime(Date.now() + 3550 * 1000)
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('token-2', 3600))
+        .mockResolvedValueOnce(threadResponse())
+
+      await fetchRedditComments('https://reddit.com/r/test/comments/789/', options)
+      expect(mockFetch).toHaveBeenCalledTimes(5)
+      expect(mockFetch).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({
+        headers: expect.objectContaining({ 'Authorization': 'Bearer token-2' })
+      }))
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should replace a token that is rejected', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse('revoked'))
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' } as Response)
+      .mockResolvedValueOnce(tokenResponse('fresh'))
+      .mockResolvedValueOnce(threadResponse())
+
+    const result = await fetchCommentsResult(
+      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' },
+      { redditCredentials: { clientId: 'app-c', clientSecret: 'secret' } }
+    )
+
+    expect(result.ok).toBe(true)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({
+      headers: expect.objectContaining({ 'Authorization': 'Bearer fresh' })
+    }))
+  })
+
+  it('should report UNAUTHORIZED when the credentials are refused', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' } as Response)
+
+    const result = await fetchCommentsResult(
+      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' },
+      { redditCredentials: { clientId: 'app-d', clientSecret: 'wrong' } }
+    )
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error.code).toBe('UNAUTHORIZED')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('Reddit "load more comments" expansion', () => {
+  const redditComment = (id: string, extra = {}) => ({
+    kind: 't1',
+    data: { id, author: `user-${id}`, body: `Comment ${id}`, created_utc: 1234567890, score: 1, ...extra }
+  })
+
+  const threadWithStubs = () => [
+    { data: { children: [{ kind: 't3', data: { name: 't3_post1' } }] } },
+    {
+      data: {
+        children: [
+          redditComment('a', {
+            replies: {
+              data: {
+                children: [
+                  redditComment('a1'),
+                  { kind: 'more', data: { count: 2, children: ['a2', 'a3'] } }
+                ]
+              }
+            }
+          }),
+          { kind: 'more', data: { count: 1, children: ['b'] } }
+        ]
+      }
+    }
+  ]
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should leave stubs unexpanded by default', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => threadWithStubs() } as Response)
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/post1/')
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result.map(c => c.id)).toEqual(['reddit-a'])
+  })
+
+  it('should splice morechildren results under their parents', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => threadWithStubs() } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        json: {
+          data: {
+            things: [
+              redditComment('a2', { parent_id: 't1_a' }),
+              redditComment('a2x', { parent_id: 't1_a2' }),
+              redditComment('a3', { parent_id: 't1_a' })
+            ]
+          }
+        }
+      })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        json: { data: { things: [redditComment('b', { parent_id: 't3_post1' })] } }
+      })
+    } as Response)
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/post1/', { redditMoreRequests: 5 })
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'https://www.reddit.com/api/morechildren.json?api_type=json&link_id=t3_post1&children=a2,a3',
+      expect.any(Object)
+    )
+    expect(result.map(c => c.id)).toEqual(['reddit-a', 'reddit-b'])
+    expect(result[0].replies!.map(c => c.id)).toEqual(['reddit-a1', 'reddit-a2', 'reddit-a3'])
+    expect(result[0].replies![1].replies!.map(c => c.id)).toEqual(['reddit-a2x'])
+  })
+
+  it('should stop after the configured number of extra requests', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => threadWithStubs() } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ json: { data: { things: [redditComment('a2', { parent_id: 't1_a' })] } } })
+    } as Response)
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/post1/', { redditMoreRequests: 1 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result.map(c => c.id)).toEqual(['reddit-a'])
+    expect(result[0].replies!.map(c => c.id)).toEqual(['reddit-a1', 'reddit-a2'])
+  })
+
+  it('should keep the loaded comments when expansion fails', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => threadWithStubs() } as Response)
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 429 } as Response)
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/post1/', { redditMoreRequests: 5 })
+
+    expect(result.map(c => c.id)).toEqual(['reddit-a'])
+    expect(console.warn).toHaveBeenCalled()
+  })
+})
+
 describe('fetchHackerNewsComments', () => {
   beforeEach(() => {
     mockFetch.mockClear()
@@ -442,113 +765,1698 @@ describe('fetchHackerNewsComments', () => {
   })
 })
 
-describe('fetchCommentsForPlatform', () => {
-  beforeEach(() => {
-    mockFetch.mockClear()
+describe('Hacker News official API', () => {
+  const items: Record<number, unknown> = {
+    100: { id: 100, type: 'story', by: 'pg', title: 'Story', score: 120, time: 1234567890, descendants: 4, kids: [101, 102, 103] },
+    101: { id: 101, type: 'comment', by: 'alice', text: 'Great &amp; useful', time: 1234567900, kids: [104] },
+    102: { id: 102, type: 'comment', deleted: true, time: 1234567901 },
+    103: { id: 103, type: 'comment', by: 'spammer', text: 'spam', dead: true, time: 1234567902, kids: [105] },
+    104: { id: 104, type: 'comment', by: 'bob', text: 'Agreed', time: 1234567910 }
+  }
+  const serveItems = () => mockFetch.mockImplementation(async (input) => {
+    const id = String(input).match(/item\/(\d+)\.json/)?.[1]
+    return { ok: true, json: async () => (id ? items[Number(id)] ?? null : null) } as Response
   })
 
-  it('should route to correct platform function', async () => {
-    const mockV2exResponse = [{ id: 1, content: 'test', created: 1234567890 }]
+  afterEach(() => {
+    mockFetch.mockReset()
+  })
 
-    mockFetch.mockResolvedValueOnce({
+  it('should walk the thread item by item, dropping dead and deleted comments', async () => {
+    serveItems()
+
+    const result = await fetchThreadResult(
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=100' },
+      { hackerNewsSource: 'firebase' }
+    )
+
+    expect(result).toEqual({
       ok: true,
-      json: async () => mockV2exResponse
-    } as Response)
+      data: {
+        platform: 'hackernews',
+        permalink: 'https://news.ycombinator.com/item?id=100',
+        title: 'Story',
+        score: 120,
+        commentCount: 4,
+        author: 'pg',
+        createdAt: '2009-02-13T23:31:30.000Z',
+        comments: [{
+          id: 'hn-101',
+          author: 'alice',
+          content: 'Great & useful',
+          timestamp: '2009-02-13T23:31:40.000Z',
+          votes: undefined,
+          platform: 'hackernews',
+          replies: [{
+            id: 'hn-104',
+            author: 'bob',
+            content: 'Agreed',
+            timestamp: '2009-02-13T23:31:50.000Z',
+            votes: undefined,
+            platform: 'hackernews',
+            replies: []
+          }]
+        }]
+      }
+    })
+    // Replies of the dead comment are never requested
+    expect(mockFetch).not.toHaveBeenCalledWith('https://hacker-news.firebaseio.com/v0/item/105.json', expect.any(Object))
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+  })
 
-    const discussion: ExternalDiscussion = {
-      platform: 'v2ex',
-      url: 'https://v2ex.com/t/12345'
-    }
+  it('should leave out replies that fail to load', async () => {
+    mockFetch.mockImplementation(async (input) => {
+      const id = Number(String(input).match(/item\/(\d+)\.json/)?.[1])
+      if (id === 104) return { ok: false, status: 503 } as Response
+      return { ok: true, json: async () => items[id] ?? null } as Response
+    })
 
-    const result = await fetchCommentsForPlatform(discussion)
+    const result = await fetchThreadResult(
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=100' },
+      { hackerNewsSource: 'firebase' }
+    )
 
-    expect(result).toHaveLength(1)
-    expect(result[0].platform).toBe('v2ex')
+    expect(result.ok && result.data.comments).toEqual([expect.objectContaining({ id: 'hn-101', replies: [] })])
+    expect(console.warn).toHaveBeenCalledWith('Failed to fetch Hacker News item 104, leaving it out:', expect.objectContaining({ code: 'UPSTREAM_ERROR' }))
   })
 
-  it('should handle unsupported platform', async () => {
-    const discussion = {
-      platform: 'unsupported' as any,
-      url: 'https://example.com'
-    }
+  it('should fall back to the official API when Algolia fails', async () => {
+    serveItems()
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
 
-    const result = await fetchCommentsForPlatform(discussion)
+    const result = await fetchHackerNewsComments('https://news.ycombinator.com/item?id=100', { hackerNewsSource: 'auto' })
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://hn.algolia.com/api/v1/items/100', expect.any(Object))
+    expect(result.map((comment) => comment.id)).toEqual(['hn-101'])
+    expect(console.warn).toHaveBeenCalled()
+  })
+
+  it('should report the Algolia error when the fallback fails too', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => null } as Response)
+
+    const result = await fetchCommentsResult(
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=100' },
+      { hackerNewsSource: 'auto' }
+    )
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'UPSTREAM_ERROR', status: 503 }) })
+  })
+
+  it('should not fall back unless asked to', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+
+    const result = await fetchHackerNewsComments('https://news.ycombinator.com/item?id=100')
 
     expect(result).toEqual([])
-    expect(console.warn).toHaveBeenCalledWith('Unsupported platform: unsupported')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
   })
 })
 
-describe('fetchAllExternalComments', () => {
+describe('fetchLobstersComments', () => {
   beforeEach(() => {
     mockFetch.mockClear()
   })
 
-  it('should fetch comments from multiple platforms', async () => {
-    // Mock V2EX response
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => [{ id: 1, content: 'v2ex comment', created: 1234567890 }]
-    } as Response)
-
-    // Mock Reddit response  
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => [
-        {},
+  it('should fetch the story JSON and rebuild the reply tree', async () => {
+    const mockResponse = {
+      short_id: 'abc123',
+      title: 'A story',
+      comments: [
         {
-          data: {
-            children: [
-              {
-                kind: 't1',
-                data: {
-                  id: 'reddit1',
-                  author: 'reddituser',
-                  body: 'reddit comment',
-                  created_utc: 1234567890,
-                  score: 10
-                }
-              }
-            ]
-          }
+          short_id: 'c1',
+          created_at: '2009-02-13T15:31:30.000-08:00',
+          score: 7,
+          parent_comment: null,
+          comment: '<p>Top &amp; level</p>',
+          comment_plain: 'Top & level',
+          commenting_user: 'alice'
+        },
+        {
+          short_id: 'c2',
+          created_at: '2009-02-13T15:32:00.000-08:00',
+          score: 2,
+          parent_comment: 'c1',
+          comment: '<p>Reply</p>',
+          commenting_user: { username: 'bob', avatar_url: '/avatars/bob-100.png' }
+        },
+        {
+          short_id: 'c3',
+          created_at: '2009-02-13T15:33:00.000-08:00',
+          score: 1,
+          parent_comment: null,
+          comment_plain: 'Second thread',
+          commenting_user: 'carol'
         }
       ]
+    }
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockResponse
     } as Response)
 
-    const discussions: ExternalDiscussion[] = [
-      { platform: 'v2ex', url: 'https://v2ex.com/t/12345' },
-      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' }
-    ]
+    const result = await fetchLobstersComments('https://lobste.rs/s/abc123/a_story')
 
-    const result = await fetchAllExternalComments(discussions)
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://lobste.rs/s/abc123.json',
+      expect.any(Object)
+    )
 
-    expect(Object.keys(result)).toEqual(['v2ex', 'reddit'])
-    expect(result.v2ex).toHaveLength(1)
-    expect(result.reddit).toHaveLength(1)
+    expect(result).toEqual([
+      {
+        id: 'lobsters-c1',
+        author: 'alice',
+        content: 'Top & level',
+        timestamp: '2009-02-13T23:31:30.000Z',
+        votes: 7,
+        platform: 'lobsters',
+        avatar: 'https://lobste.rs/avatars/alice-100.png',
+        replies: [
+          {
+            id: 'lobsters-c2',
+            author: 'bob',
+            content: 'Reply',
+            timestamp: '2009-02-13T23:32:00.000Z',
+            votes: 2,
+            platform: 'lobsters',
+            avatar: 'https://lobste.rs/avatars/bob-100.png',
+            replies: []
+          }
+        ]
+      },
+      expect.objectContaining({ id: 'lobsters-c3', content: 'Second thread', replies: [] })
+    ])
   })
 
-  it('should handle mixed success and failure', async () => {
-    // Mock successful V2EX response
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => [{ id: 1, content: 'v2ex comment', created: 1234567890 }]
-    } as Response)
+  it('should handle invalid Lobsters URL', async () => {
+    const result = await fetchLobstersComments('https://invalid-url.com')
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
 
-    // Mock failed Reddit response
+  it('should handle API failure gracefully', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: false,
-      status: 500
+      status: 404
     } as Response)
 
-    const discussions: ExternalDiscussion[] = [
-      { platform: 'v2ex', url: 'https://v2ex.com/t/12345' },
-      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' }
-    ]
+    const result = await fetchLobstersComments('https://lobste.rs/s/abc123')
+    expect(result).toEqual([])
+  })
+})
 
-    const result = await fetchAllExternalComments(discussions)
+describe('fetchGitHubComments', () => {
+  // Minimal stand-in for api.github.com: routes requests on the mocked fetch by URL
+  const stubGitHubServer = (routes: Record<string, (init?: RequestInit) => unknown>) => {
+    mockFetch.mockImplementation(async (input, init) => {
+      const handler = routes[String(input)]
+      if (!handler) {
+        return { ok: false, status: 404, json: async () => ({ message: 'Not Found' }) } as Response
+      }
+      const body = handler(init)
+      return { ok: true, status: 200, json: async () => body } as Response
+    })
+  }
+
+  const issueComment = (id: number) => ({
+    id,
+    user: { login: `user${id}`, avatar_url: `https://avatars.githubusercontent.com/u/${id}` },
+    body: `Comment ${id}`,
+    created_at: '2009-02-13T23:31:30Z',
+    reactions: { total_count: 3, '+1': 2, heart: 1 }
+  })
+
+  afterEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should fetch issue comments and map reactions and avatars', async () => {
+    stubGitHubServer({
+      'https://api.github.com/repos/metrue/discussing/issues/42/comments?per_page=100&page=1': () => [issueComment(1)]
+    })
+
+    const result = await fetchGitHubComments('https://github.com/metrue/discussing/issues/42', { githubToken: 'secret' })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'Authorization': 'Bearer secret',
+          'Accept': 'application/vnd.github+json'
+        })
+      })
+    )
+    expect(result).toEqual([
+      {
+        id: 'github-1',
+        author: 'user1',
+        content: 'Comment 1',
+        timestamp: '2009-02-13T23:31:30Z',
+        votes: 3,
+        platform: 'github',
+        avatar: 'https://avatars.githubusercontent.com/u/1'
+      }
+    ])
+  })
+
+  it('should page through long issue threads', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => issueComment(i + 1))
+    stubGitHubServer({
+      'https://api.github.com/repos/metrue/discussing/issues/42/comments?per_page=100&page=1': () => firstPage,
+      'https://api.github.com/repos/metrue/discussing/issues/42/comments?per_page=100&page=2': () => [issueComment(101)]
+    })
+
+    const result = await fetchGitHubComments('https://github.com/metrue/discussing/issues/42')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result).toHaveLength(101)
+    expect(result[100].id).toBe('github-101')
+  })
+
+  it('should fetch discussion comments with replies through GraphQL', async () => {
+    const node = (id: number, extra = {}) => ({
+      databaseId: id,
+      body: `Discussion comment ${id}`,
+      createdAt: '2009-02-13T23:31:30Z',
+      author: { login: `user${id}`, avatarUrl: `https://avatars.githubusercontent.com/u/${id}` },
+      reactions: { totalCount: id },
+      ...extra
+    })
+    const requests: any[] = []
+
+    stubGitHubServer({
+      'https://api.github.com/graphql': (init) => {
+        const { variables } = JSON.parse(String(init?.body))
+        requests.push(variables)
+        return {
+          data: {
+            repository: {
+              discussion: {
+                comments: variables.after
+                  ? { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [node(3)] }
+                  : { pageInfo: { hasNextPage: true, endCursor: 'cursor-1' }, nodes: [node(1, { replies: { nodes: [node(2)] } })] }
+              }
+            }
+          }
+        }
+      }
+    })
+
+    const result = await fetchGitHubComments('https://github.com/metrue/discussing/discussions/7', { githubToken: 'secret' })
+
+    expect(requests).toEqual([
+      { owner: 'metrue', repo: 'discussing', number: 7, after: null },
+      { owner: 'metrue', repo: 'discussing', number: 7, after: 'cursor-1' }
+    ])
+    expect(result.map(c => c.id)).toEqual(['github-1', 'github-3'])
+    expect(result[0].votes).toBe(1)
+    expect(result[0].replies).toEqual([
+      expect.objectContaining({ id: 'github-2', author: 'user2', avatar: 'https://avatars.githubusercontent.com/u/2' })
+    ])
+  })
+
+  it('should require a token for discussions', async () => {
+    const result = await fetchGitHubComments('https://github.com/metrue/discussing/discussions/7')
+
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should handle invalid GitHub URL and missing threads', async () => {
+    stubGitHubServer({})
+
+    expect(await fetchGitHubComments('https://github.com/metrue/discussing')).toEqual([])
+    expect(await fetchGitHubComments('https://github.com/metrue/discussing/issues/404')).toEqual([])
+  })
+})
+
+describe('fetchMastodonComments', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  const status = (id: string, inReplyTo: string, content: string) => ({
+    id,
+    in_reply_to_id: inReplyTo,
+    content,
+    created_at: '2009-02-13T23:31:30.000Z',
+    favourites_count: 4,
+    account: { acct: `user${id}@example.social`, username: `user${id}`, avatar: `https://files.example/${id}.png` }
+  })
+
+  it('should fetch the status context from the instance and nest replies', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        ancestors: [],
+        descendants: [
+          status('2', '1', '<p>First &amp; reply</p><p>Second paragraph<br />next line</p>'),
+          status('3', '2', '<p><span class="h-card"><a href="https://example.social/@user2" class="u-url mention">@<span>user2</span></a></span> agreed</p>'),
+          status('4', '1', '<p>Another top-level reply</p><script>alert(1)</script>')
+        ]
+      })
+    } as Response)
+
+    const result = await fetchMastodonComments('https://mastodon.social/@author/1')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://mastodon.social/api/v1/statuses/1/context',
+      expect.any(Object)
+    )
+
+    expect(result).toHaveLength(2)
+    expect(result[0]).toMatchObject({
+      id: 'mastodon-2',
+      author: 'user2@example.social',
+      content: 'First & reply\n\nSecond paragraph\nnext line',
+      votes: 4,
+      platform: 'mastodon',
+      avatar: 'https://files.example/2.png'
+    })
+    expect(result[0].replies).toEqual([
+      expect.objectContaining({ id: 'mastodon-3', content: '@user2 agreed' })
+    ])
+    expect(result[1].content).toBe('Another top-level reply')
+  })
+
+  it('should accept ActivityPub style status URLs', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ancestors: [], descendants: [] })
+    } as Response)
+
+    const result = await fetchMastodonComments('https://hachyderm.io/users/author/statuses/123')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://hachyderm.io/api/v1/statuses/123/context',
+      expect.any(Object)
+    )
+    expect(result).toEqual([])
+  })
+
+  it('should handle invalid Mastodon URL', async () => {
+    const result = await fetchMastodonComments('https://mastodon.social/about')
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    'http://mastodon.social/@a/1',
+    'https://localhost/@a/1',
+    'https://127.0.0.1/@a/1',
+    'https://2130706433/@a/1',
+    'https://mastodon.social@10.0.0.5/@a/1',
+    'https://[::1]/@a/1',
+    'https://[::ffff:192.168.1.1]/@a/1',
+    'https://[fd00::1]/@a/1'
+  ])('should not fetch from %s', async (url) => {
+    const result = await fetchCommentsResult({ url })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'INVALID_URL' } })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should not send global headers to the instance', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ancestors: [], descendants: [] })
+    } as Response)
+
+    await fetchMastodonComments('https://mastodon.social/@author/1', { headers: { Authorization: 'Bearer secret' } })
+
+    const init = mockFetch.mock.calls[0][1]!
+    expect(init.headers).not.toHaveProperty('Authorization')
+    expect(init.redirect).toBe('error')
+  })
+})
+
+describe('fetchBlueskyComments', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  const threadPost = (cid: string, text: string, replies: any[] = []) => ({
+    $type: 'app.bsky.feed.defs#threadViewPost',
+    post: {
+      cid,
+      author: { handle: `${cid}.bsky.social`, avatar: `https://cdn.bsky.app/${cid}.jpg` },
+      record: { text, createdAt: '2009-02-13T23:31:30.000Z' },
+      likeCount: 9
+    },
+    replies
+  })
+
+  it('should resolve the handle and walk the post thread', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ did: 'did:plc:author' })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        thread: threadPost('root', 'The post', [
+          threadPost('a', 'First reply', [threadPost('b', 'Nested reply')]),
+          { $type: 'app.bsky.feed.defs#blockedPost', uri: 'at://blocked' }
+        ])
+      })
+    } as Response)
+
+    const result = await fetchBlueskyComments('https://bsky.app/profile/author.bsky.social/post/3kabc')
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'https://public.api.bsky.app/xrpc/com.atproto.identity.resolveHandle?handle=author.bsky.social',
+      expect.any(Object)
+    )
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      `https://public.api.bsky.app/xrpc/app.bsky.feed.getPostThread?uri=${encodeURIComponent('at://did:plc:author/app.bsky.feed.post/3kabc')}&depth=100`,
+      expect.any(Object)
+    )
+
+    expect(result).toEqual([
+      {
+        id: 'bluesky-a',
+        author: 'a.bsky.social',
+        content: 'First reply',
+        timestamp: '2009-02-13T23:31:30.000Z',
+        votes: 9,
+        platform: 'bluesky',
+        avatar: 'https://cdn.bsky.app/a.jpg',
+        replies: [expect.objectContaining({ id: 'bluesky-b', content: 'Nested reply', replies: [] })]
+      }
+    ])
+  })
+
+  it('should skip handle resolution for DID URLs', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ thread: threadPost('root', 'The post') })
+    } as Response)
+
+    const result = await fetchBlueskyComments('https://bsky.app/profile/did:plc:author/post/3kabc')
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(result).toEqual([])
+  })
+
+  it('should handle invalid Bluesky URL', async () => {
+    const result = await fetchBlueskyComments('https://bsky.app/profile/author.bsky.social')
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('fetchDiscourseComments', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  const post = (postNumber: number, replyTo: number | null, cooked: string) => ({
+    id: 1000 + postNumber,
+    post_number: postNumber,
+    reply_to_post_number: replyTo,
+    username: `user${postNumber}`,
+    avatar_template: '/user_avatar/forum.example.com/user/{size}/1_2.png',
+    cooked,
+    created_at: '2009-02-13T23:31:30.000Z',
+    actions_summary: [{ id: 2, count: postNumber }]
+  })
+
+  it('should page through the post stream and nest replies', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        post_stream: {
+          stream: [1001, 1002, 1003, 1004],
+          posts: [post(1, null, '<p>Topic body</p>'), post(2, null, '<p>Great &amp; useful</p>')]
+        }
+      })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        post_stream: {
+          stream: [1001, 1002, 1003, 1004],
+          posts: [post(3, 2, '<p>Reply to two</p>'), post(4, null, '<p>Unrelated</p>')]
+        }
+      })
+    } as Response)
+
+    const result = await fetchDiscourseComments('https://forum.example.com/t/some-topic/42')
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://forum.example.com/t/42.json?page=1', expect.any(Object))
+    expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://forum.example.com/t/42.json?page=2', expect.any(Object))
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    expect(result).toEqual([
+      {
+        id: 'discourse-1002',
+        author: 'user2',
+        content: 'Great & useful',
+        timestamp: '2009-02-13T23:31:30.000Z',
+        votes: 2,
+        platform: 'discourse',
+        avatar: 'https://forum.example.com/user_avatar/forum.example.com/user/90/1_2.png',
+        replies: [expect.objectContaining({ id: 'discourse-1003', content: 'Reply to two' })]
+      },
+      expect.objectContaining({ id: 'discourse-1004', replies: [] })
+    ])
+  })
+
+  it('should stop paging when the stream runs out', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        post_stream: { stream: [1001, 1002, 1003], posts: [post(1, null, 'Topic'), post(2, null, 'Reply')] }
+      })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404
+    } as Response)
+
+    const result = await fetchDiscourseComments('https://forum.example.com/t/some-topic/42/3')
+
+    expect(result).toHaveLength(1)
+  })
+
+  it('should reject URLs without a topic slug', async () => {
+    const result = await fetchDiscourseComments('https://v2ex.com/t/12345')
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    'http://forum.example.com/t/x/1',
+    'https://127.0.0.1:8080/t/x/1',
+    'https://192.168.0.10/t/x/1',
+    'https://db.localhost/t/x/1'
+  ])('should not fetch from %s', async (url) => {
+    const comments = await fetchCommentsResult({ url })
+    const count = await fetchCommentCountResult({ url })
+
+    expect(comments).toMatchObject({ ok: false, error: { code: 'INVALID_URL' } })
+    expect(count).toMatchObject({ ok: false, error: { code: 'INVALID_URL' } })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should send only Discourse headers and refuse redirects', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ posts_count: 1 })
+    } as Response)
+
+    await fetchCommentCountResult({ url: 'https://forum.example.com/t/some-topic/42' }, {
+      headers: { Authorization: 'Bearer secret' },
+      platformHeaders: { discourse: { 'Api-Key': 'forum-key' } }
+    })
+
+    const init = mockFetch.mock.calls[0][1]!
+    expect(init.headers).not.toHaveProperty('Authorization')
+    expect(init.headers).toMatchObject({ 'Api-Key': 'forum-key' })
+    expect(init.redirect).toBe('error')
+  })
+})
+
+describe('fetchLemmyComments', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  const view = (id: number, path: string, extra = {}) => ({
+    comment: { id, path, content: `Comment ${id}`, published: '2009-02-13T23:31:30.000Z', ...extra },
+    creator: { name: `user${id}`, avatar: `https://lemmy.example/pictrs/${id}.png` },
+    counts: { score: id }
+  })
+
+  it('should rebuild the comment tree from dotted paths', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        comments: [
+          view(10, '0.10'),
+          view(12, '0.10.11.12'),
+          view(11, '0.10.11', { deleted: true }),
+          view(20, '0.20')
+        ]
+      })
+    } as Response)
+
+    const result = await fetchLemmyComments('https://lemmy.world/post/123')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://lemmy.world/api/v3/comment/list?post_id=123&type_=All&sort=Top&limit=50&page=1',
+      expect.any(Object)
+    )
+
+    expect(result.map(c => c.id)).toEqual(['lemmy-10', 'lemmy-20'])
+    expect(result[0]).toMatchObject({
+      author: 'user10',
+      content: 'Comment 10',
+      votes: 10,
+      platform: 'lemmy',
+      avatar: 'https://lemmy.example/pictrs/10.png'
+    })
+    expect(result[0].replies).toEqual([
+      expect.objectContaining({
+        id: 'lemmy-11',
+        content: '[deleted]',
+        replies: [expect.objectContaining({ id: 'lemmy-12' })]
+      })
+    ])
+  })
+
+  it('should page through large threads', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ comments: Array.from({ length: 50 }, (_, i) => view(i + 1, `0.${i + 1}`)) })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ comments: [view(51, '0.51')] })
+    } as Response)
+
+    const result = await fetchLemmyComments('https://lemmy.world/post/123')
+
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining('&page=2'), expect.any(Object))
+    expect(result).toHaveLength(51)
+  })
+
+  it('should handle invalid Lemmy URL', async () => {
+    const result = await fetchLemmyComments('https://lemmy.world/c/technology')
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    'http://lemmy.world/post/1',
+    'https://169.254.169.254/post/1',
+    'https://172.16.0.1/post/1',
+    'https://[fe80::1]/post/1'
+  ])('should not fetch from %s', async (url) => {
+    const comments = await fetchCommentsResult({ url })
+    const count = await fetchCommentCountResult({ url })
+
+    expect(comments).toMatchObject({ ok: false, error: { code: 'INVALID_URL' } })
+    expect(count).toMatchObject({ ok: false, error: { code: 'INVALID_URL' } })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('fetchCommentsForPlatform', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should route to correct platform function', async () => {
+    const mockV2exResponse = [{ id: 1, content: 'test', created: 1234567890 }]
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockV2exResponse
+    } as Response)
+
+    const discussion: ExternalDiscussion = {
+      platform: 'v2ex',
+      url: 'https://v2ex.com/t/12345'
+    }
+
+    const result = await fetchCommentsForPlatform(discussion)
+
+    expect(result).toHaveLength(1)
+    expect(result[0].platform).toBe('v2ex')
+  })
+
+  it('should handle unsupported platform', async () => {
+    const discussion = {
+      platform: 'unsupported' as any,
+      url: 'https://example.com'
+    }
+
+    const result = await fetchCommentsForPlatform(discussion)
+
+    expect(result).toEqual([])
+    expect(console.warn).toHaveBeenCalledWith('Unsupported platform: unsupported')
+  })
+})
+
+describe('platform registry', () => {
+  const customAdapter: PlatformAdapter = {
+    id: 'inhouse',
+    name: 'In-house Forum',
+    icon: 'https://forum.example.com/favicon.ico',
+    matchUrl: (url) => url.startsWith('https://forum.example.com/'),
+    fetchComments: jest.fn(async (url: string) => [
+      {
+        id: 'inhouse-1',
+        author: 'staff',
+        content: `Comment for ${url}`,
+        timestamp: '2023-01-01T00:00:00.000Z',
+        platform: 'inhouse'
+      }
+    ])
+  }
+
+  afterEach(() => {
+    unregisterPlatform('inhouse')
+  })
+
+  it('should register the built-in platforms', () => {
+    expect(getRegisteredPlatforms().map(p => p.id)).toEqual(
+      expect.arrayContaining(['v2ex', 'reddit', 'hackernews', 'lobsters', 'github', 'mastodon', 'bluesky', 'discourse', 'lemmy'])
+    )
+    expect(getPlatform('hackernews')?.name).toBe('Hacker News')
+    expect(getPlatform('reddit')?.matchUrl('https://reddit.com/r/test/comments/123/')).toBe(true)
+    expect(getPlatform('v2ex')?.matchUrl('https://news.ycombinator.com/item?id=1')).toBe(false)
+  })
+
+  it('should flag the platforms that fetch from any host', () => {
+    expect(getRegisteredPlatforms().filter((adapter) => adapter.anyHost).map((adapter) => adapter.id).sort()).toEqual(['discourse', 'lemmy', 'mastodon'])
+  })
+
+  it('should route custom platforms through fetchCommentsForPlatform', async () => {
+    registerPlatform(customAdapter)
+
+    const result = await fetchCommentsForPlatform(
+      { platform: 'inhouse', url: 'https://forum.example.com/t/1' },
+      { cacheTimeout: 60 }
+    )
+
+    expect(customAdapter.fetchComments).toHaveBeenCalledWith('https://forum.example.com/t/1', { cacheTimeout: 60 })
+    expect(result[0].content).toBe('Comment for https://forum.example.com/t/1')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should treat unregistered platforms as unsupported', async () => {
+    registerPlatform(customAdapter)
+    expect(unregisterPlatform('inhouse')).toBe(true)
+    expect(getPlatform('inhouse')).toBeUndefined()
+
+    const result = await fetchCommentsForPlatform({ platform: 'inhouse', url: 'https://forum.example.com/t/1' })
+    expect(result).toEqual([])
+  })
+})
+
+describe('detectPlatform', () => {
+  it.each([
+    ['https://news.ycombinator.com/item?id=12345', 'hackernews', 'https://news.ycombinator.com/item?id=12345'],
+    ['https://news.ycombinator.com/item?p=2&id=12345', 'hackernews', 'https://news.ycombinator.com/item?id=12345'],
+    ['https://old.reddit.com/r/programming/comments/abc123/title/?sort=new', 'reddit', 'https://www.reddit.com/r/programming/comments/abc123/title/'],
+    ['https://old.reddit.com/r/programming/comments/abc123/title/def456/', 'reddit', 'https://www.reddit.com/r/programming/comments/abc123/title/'],
+    ['https://redd.it/abc123', 'reddit', 'https://www.reddit.com/comments/abc123/'],
+    ['https://v2ex.com/t/123#reply5', 'v2ex', 'https://www.v2ex.com/t/123'],
+    ['https://www.v2ex.com/amp/t/123', 'v2ex', 'https://www.v2ex.com/t/123'],
+    ['https://lobste.rs/s/abc123/some_title', 'lobsters', 'https://lobste.rs/s/abc123'],
+    ['https://github.com/owner/repo/issues/42#issuecomment-1', 'github', 'https://github.com/owner/repo/issues/42'],
+    ['https://forum.example.com/t/some-topic/123/4', 'discourse', 'https://forum.example.com/t/some-topic/123'],
+    ['https://lemmy.world/post/123?sort=New', 'lemmy', 'https://lemmy.world/post/123'],
+    ['https://mastodon.social/@user/1234567890', 'mastodon', 'https://mastodon.social/@user/1234567890']
+  ])('should detect %s', (url, platform, canonical) => {
+    expect(detectPlatform(url)).toEqual({ platform, url: canonical })
+  })
+
+  it('should return undefined for unrecognized URLs', () => {
+    expect(detectPlatform('https://example.com/blog/post')).toBeUndefined()
+  })
+
+  it('should prefer adapters registered later', () => {
+    registerPlatform({
+      id: 'inhouse',
+      name: 'In-house Forum',
+      matchUrl: (url) => url.startsWith('https://forum.example.com/'),
+      fetchComments: async () => []
+    })
+
+    expect(detectPlatform('https://forum.example.com/t/some-topic/123')?.platform).toBe('inhouse')
+    unregisterPlatform('inhouse')
+  })
+})
+
+describe('fetchCommentsResult', () => {
+  const hn: ExternalDiscussion = { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=12345' }
+
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should return comments as an ok result, even when there are none', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ children: [] })
+    } as Response)
+
+    expect(await fetchCommentsResult(hn)).toEqual({ ok: true, data: [] })
+  })
+
+  it('should report invalid URLs without calling upstream', async () => {
+    const result = await fetchCommentsResult({ platform: 'hackernews', url: 'https://example.com' })
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'INVALID_URL' }) })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [404, 'NOT_FOUND'],
+    [429, 'RATE_LIMITED'],
+    [403, 'UNAUTHORIZED'],
+    [503, 'UPSTREAM_ERROR']
+  ])('should map HTTP %i to %s', async (status, code) => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status } as Response)
+
+    const result = await fetchCommentsResult(hn)
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code, status }) })
+  })
+
+  it('should report unparseable responses', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => { throw new SyntaxError('Unexpected token <') }
+    } as unknown as Response)
+
+    const result = await fetchCommentsResult(hn)
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'PARSE_ERROR' }) })
+  })
+
+  it('should report network failures as upstream errors', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('socket hang up'))
+
+    const result = await fetchCommentsResult(hn)
+
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: 'UPSTREAM_ERROR', message: 'socket hang up' })
+    })
+  })
+
+  it('should detect the platform when none is given', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{}, { data: { children: [] } }]
+    } as Response)
+
+    const result = await fetchCommentsResult({ url: 'https://old.reddit.com/r/test/comments/abc123/title/?utm_source=share' })
+
+    expect(result).toEqual({ ok: true, data: [] })
+    expect(mockFetch).toHaveBeenCalledWith('https://reddit.com/r/test/comments/abc123/title.json', expect.any(Object))
+  })
+
+  it('should report URLs no platform recognizes', async () => {
+    const result = await fetchCommentsResult({ url: 'https://example.com/blog/post' })
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'UNSUPPORTED_PLATFORM' }) })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should report unsupported platforms', async () => {
+    const result = await fetchCommentsResult({ platform: 'myspace', url: 'https://myspace.com/1' })
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'UNSUPPORTED_PLATFORM' }) })
+  })
+
+  it('should pass through errors thrown by custom adapters', async () => {
+    registerPlatform({
+      id: 'inhouse',
+      name: 'In-house Forum',
+      matchUrl: () => true,
+      fetchComments: async () => { throw new DiscussionFetchError('RATE_LIMITED', 'Slow down', 429) }
+    })
+
+    const result = await fetchCommentsResult({ platform: 'inhouse', url: 'https://forum.example.com/t/1' })
+    unregisterPlatform('inhouse')
+
+    expect(result).toEqual({ ok: false, error: expect.any(DiscussionFetchError) })
+    expect(!result.ok && result.error).toMatchObject({ code: 'RATE_LIMITED', message: 'Slow down', status: 429 })
+  })
+
+  it('should keep per-discussion results in fetchAllCommentsResults', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ children: [] }) } as Response)
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 } as Response)
+
+    const result = await fetchAllCommentsResults([
+      hn,
+      { platform: 'lobsters', url: 'https://lobste.rs/s/gone' }
+    ])
+
+    expect(result[hn.url]).toEqual({ ok: true, data: [] })
+    expect(result['https://lobste.rs/s/gone']).toEqual({ ok: false, error: expect.objectContaining({ code: 'NOT_FOUND' }) })
+  })
+})
+
+describe('fetchThreadResult', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should read Reddit post metadata from the listing', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        {
+          data: {
+            children: [{
+              kind: 't3',
+              data: {
+                name: 't3_abc123',
+                title: 'Show Reddit: a thing',
+                score: 142,
+                num_comments: 87,
+                author: 'op',
+                created_utc: 1672531200,
+                permalink: '/r/test/comments/abc123/show_reddit_a_thing/'
+              }
+            }]
+          }
+        },
+        { data: { children: [] } }
+      ]
+    } as Response)
+
+    const result = await fetchThreadResult({ url: 'https://www.reddit.com/r/test/comments/abc123/' })
+
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        platform: 'reddit',
+        permalink: 'https://www.reddit.com/r/test/comments/abc123/show_reddit_a_thing/',
+        title: 'Show Reddit: a thing',
+        score: 142,
+        commentCount: 87,
+        author: 'op',
+        createdAt: '2023-01-01T00:00:00.000Z',
+        comments: []
+      }
+    })
+  })
+
+  it('should count Hacker News comments from the returned tree', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 12345,
+        title: 'Show HN: a thing',
+        points: 142,
+        author: 'op',
+        created_at: '2023-01-01T00:00:00.000Z',
+        children: [
+          {
+            id: 1,
+            author: 'a',
+            text: 'Top',
+            created_at: '2023-01-01T01:00:00.000Z',
+            children: [{ id: 2, author: 'b', text: 'Reply', created_at: '2023-01-01T02:00:00.000Z', children: [] }]
+          },
+          { id: 3, author: null, text: null, created_at: '2023-01-01T03:00:00.000Z', children: [] }
+        ]
+      })
+    } as Response)
+
+    const result = await fetchThreadResult({ platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=12345' })
+
+    expect(result.ok && result.data).toMatchObject({
+      platform: 'hackernews',
+      permalink: 'https://news.ycombinator.com/item?id=12345',
+      title: 'Show HN: a thing',
+      score: 142,
+      commentCount: 2,
+      author: 'op'
+    })
+  })
+
+  it('should fetch the V2EX topic alongside its replies', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 1, member: { username: 'a' }, content: 'Reply', created: 1672531200 }]
+    } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 123, title: 'A topic', replies: 1, member: { username: 'op' }, created: 1672531200 }]
+    } as Response)
+
+    const result = await fetchThreadResult({ platform: 'v2ex', url: 'https://v2ex.com/t/123' })
+
+    expect(mockFetch).toHaveBeenCalledWith('https://www.v2ex.com/api/topics/show.json?id=123', expect.any(Object))
+    expect(result.ok && result.data).toMatchObject({
+      permalink: 'https://www.v2ex.com/t/123',
+      title: 'A topic',
+      commentCount: 1,
+      author: 'op',
+      createdAt: '2023-01-01T00:00:00.000Z'
+    })
+    expect(result.ok && result.data.comments).toHaveLength(1)
+  })
+
+  it('should keep V2EX replies when the topic request fails', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 1, member: { username: 'a' }, content: 'Reply', created: 1672531200 }]
+    } as Response)
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+
+    const result = await fetchThreadResult({ platform: 'v2ex', url: 'https://v2ex.com/t/123' })
+
+    expect(result.ok && result.data.title).toBeUndefined()
+    expect(result.ok && result.data.comments).toHaveLength(1)
+    expect(console.warn).toHaveBeenCalled()
+  })
+
+  it('should build a thread from fetchComments for adapters without fetchThread', async () => {
+    registerPlatform({
+      id: 'inhouse',
+      name: 'In-house Forum',
+      matchUrl: (url) => url.startsWith('https://forum.example.com/'),
+      fetchComments: async () => [{
+        id: 'inhouse-1',
+        author: 'staff',
+        content: 'Hello',
+        timestamp: '2023-01-01T00:00:00.000Z',
+        platform: 'inhouse',
+        replies: [{ id: 'inhouse-2', author: 'guest', content: 'Hi', timestamp: '2023-01-01T00:00:00.000Z', platform: 'inhouse' }]
+      }]
+    })
+
+    const results = await fetchAllThreadResults([{ url: 'https://forum.example.com/t/1', id: 'forum' }])
+    unregisterPlatform('inhouse')
+
+    expect(results.forum).toEqual({
+      ok: true,
+      data: expect.objectContaining({ platform: 'inhouse', permalink: 'https://forum.example.com/t/1', commentCount: 2 })
+    })
+  })
+})
+
+describe('fetchCommentCounts', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should read counts from the cheapest endpoint per platform', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ id: 12345, descendants: 12 }) } as Response)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { children: [{ kind: 't3', data: { num_comments: 40 } }] } })
+    } as Response)
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [{ id: 123, replies: 7 }] } as Response)
+
+    const counts = await fetchCommentCounts([
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=12345' },
+      { url: 'https://old.reddit.com/r/test/comments/abc123/title/' },
+      { platform: 'v2ex', url: 'https://v2ex.com/t/123' }
+    ])
+
+    expect(counts).toEqual({
+      'https://news.ycombinator.com/item?id=12345': 12,
+      'https://old.reddit.com/r/test/comments/abc123/title/': 40,
+      'https://v2ex.com/t/123': 7
+    })
+    expect(mockFetch).toHaveBeenCalledWith('https://hacker-news.firebaseio.com/v0/item/12345.json', expect.any(Object))
+    expect(mockFetch).toHaveBeenCalledWith('https://www.reddit.com/api/info.json?id=t3_abc123', expect.any(Object))
+    expect(mockFetch).toHaveBeenCalledWith('https://www.v2ex.com/api/topics/show.json?id=123', expect.any(Object))
+  })
+
+  it('should read GitHub issue counts without listing comments', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ number: 42, comments: 5 }) } as Response)
+
+    const result = await fetchCommentCountResult({ platform: 'github', url: 'https://github.com/owner/repo/issues/42' })
+
+    expect(result).toEqual({ ok: true, data: 5 })
+    expect(mockFetch).toHaveBeenCalledWith('https://api.github.com/repos/owner/repo/issues/42', expect.any(Object))
+  })
+
+  it('should fall back to counting the thread for platforms without a count endpoint', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        short_id: 'abc123',
+        comment_count: 3,
+        comments: [{ short_id: 'c1', commenting_user: 'a', comment_plain: 'Hi', created_at: '2023-01-01T00:00:00.000Z', score: 1 }]
+      })
+    } as Response)
+
+    const result = await fetchCommentCountResult({ platform: 'lobsters', url: 'https://lobste.rs/s/abc123' })
+
+    expect(result).toEqual({ ok: true, data: 3 })
+  })
+
+  it('should report failed counts as null', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 } as Response)
+
+    const counts = await fetchCommentCounts([
+      { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=1' },
+      { url: 'https://example.com/blog/post' }
+    ])
+
+    expect(counts).toEqual({
+      'https://news.ycombinator.com/item?id=1': null,
+      'https://example.com/blog/post': null
+    })
+  })
+})
+
+describe('retries', () => {
+  const hn: ExternalDiscussion = { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=12345' }
+  const ok = { ok: true, json: async () => ({ children: [] }) } as Response
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should make a single attempt by default', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+
+    const result = await fetchCommentsResult(hn)
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'UPSTREAM_ERROR', status: 503 }) })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should back off exponentially between attempts', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      .mockResolvedValueOnce({ ok: false, status: 502 } as Response)
+      .mockResolvedValueOnce(ok)
+
+    const pending = fetchCommentsResult(hn, { retry: { jitter: false, baseDelayMs: 100 } })
+
+    await jest.advanceTimersByTimeAsync(99)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(199)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(1)
+
+    expect(await pending).toEqual({ ok: true, data: [] })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should keep jittered delays within the backoff', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.5)
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 500 } as Response)
+      .mockResolvedValueOnce(ok)
+
+    const pending = fetchCommentsResult(hn, { retry: { baseDelayMs: 1000 } })
+
+    await jest.advanceTimersByTimeAsync(500)
+    expect(await pending).toEqual({ ok: true, data: [] })
+    random.mockRestore()
+  })
+
+  it('should wait as long as Retry-After asks', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '5' }) } as Response)
+      .mockResolvedValueOnce(ok)
+
+    const pending = fetchCommentsResult(hn, { retry: true })
+
+    await jest.advanceTimersByTimeAsync(4999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1)
+
+    expect(await pending).toEqual({ ok: true, data: [] })
+  })
+
+  it('should give up when Retry-After exceeds maxDelayMs', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '3600' }) } as Response)
+
+    const result = await fetchCommentsResult(hn, { retry: true })
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'RATE_LIMITED' }) })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop after maxAttempts and report the last failure', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 429 } as Response)
+
+    const pending = fetchCommentsResult(hn, { retry: { maxAttempts: 2, jitter: false } })
+    await jest.advanceTimersByTimeAsync(500)
+
+    expect(await pending).toEqual({ ok: false, error: expect.objectContaining({ code: 'RATE_LIMITED' }) })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should only retry the configured statuses', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 } as Response)
+
+    const result = await fetchCommentsResult(hn, { retry: { retryOn: [503] } })
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ code: 'NOT_FOUND' }) })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry network errors', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(ok)
+
+    const pending = fetchCommentsResult(hn, { retry: { jitter: false } })
+    await jest.advanceTimersByTimeAsync(500)
+
+    expect(await pending).toEqual({ ok: true, data: [] })
+  })
+
+  it('should apply to every request a platform makes', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ did: 'did:plc:abc' }) } as Response)
+      .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ thread: { replies: [] } }) } as Response)
+
+    const pending = fetchCommentsResult(
+      { platform: 'bluesky', url: 'https://bsky.app/profile/alice.bsky.social/post/3kabc' },
+      { retry: { jitter: false } }
+    )
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(await pending).toEqual({ ok: true, data: [] })
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+  })
+})
+
+describe('timeouts and cancellation', () => {
+  const hn: ExternalDiscussion = { platform: 'hackernews', url: 'https://news.ycombinator.com/item?id=12345' }
+
+  // A request that never answers, but rejects like fetch does once aborted
+  const hang = (_url: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')))
+  })
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should time out hung requests', async () => {
+    mockFetch.mockImplementationOnce(hang)
+
+    const pending = fetchCommentsResult(hn, { timeoutMs: 2000 })
+    await jest.advanceTimersByTimeAsync(2000)
+
+    expect(await pending).toEqual({ ok: false, error: expect.objectContaining({ code: 'TIMEOUT' }) })
+  })
+
+  it('should time out after 10 seconds by default', async () => {
+    mockFetch.mockImplementationOnce(hang)
+
+    const pending = fetchHackerNewsComments(hn.url)
+    await jest.advanceTimersByTimeAsync(10000)
+
+    expect(await pending).toEqual([])
+    expect(console.error).toHaveBeenCalledWith('Error fetching Hacker News comments:', expect.objectContaining({ code: 'TIMEOUT' }))
+  })
+
+  it('should retry timed out requests', async () => {
+    mockFetch
+      .mockImplementationOnce(hang)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ children: [] }) } as Response)
+
+    const pending = fetchCommentsResult(hn, { timeoutMs: 1000, retry: { jitter: false } })
+    await jest.advanceTimersByTimeAsync(1500)
+
+    expect(await pending).toEqual({ ok: true, data: [] })
+  })
+
+  it('should abort in-flight requests through the signal', async () => {
+    mockFetch.mockImplementationOnce(hang)
+    const controller = new AbortController()
+
+    const pending = fetchV2exComments('https://v2ex.com/t/123', { signal: controller.signal })
+    await jest.advanceTimersByTimeAsync(0)
+    controller.abort()
+
+    expect(await pending).toEqual([])
+    expect(mockFetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ signal: expect.any(AbortSignal) }))
+  })
+
+  it('should not retry or wait once the signal aborts', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 } as Response)
+    const controller = new AbortController()
+
+    const pending = fetchCommentsResult(hn, { signal: controller.signal, retry: { jitter: false } })
+    await jest.advanceTimersByTimeAsync(100)
+    controller.abort()
+
+    expect(await pending).toEqual({ ok: false, error: expect.objectContaining({ code: 'UPSTREAM_ERROR' }) })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not start requests for an already aborted signal', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await fetchRedditComments('https://reddit.com/r/test/comments/abc123/', { signal: controller.signal })
+
+    expect(result).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('request scheduling', () => {
+  const lobstersStory = (id: string) => ({
+    ok: true,
+    json: async () => ({ short_id: id, comments: [] })
+  } as Response)
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should share one upstream request between concurrent identical calls', async () => {
+    mockFetch.mockResolvedValueOnce(lobstersStory('abc123'))
+
+    const discussion = { platform: 'lobsters', url: 'https://lobste.rs/s/abc123' }
+    const [first, second] = await Promise.all([
+      fetchCommentsResult(discussion),
+      fetchCommentsResult({ ...discussion, url: 'https://lobste.rs/s/abc123/some_title' })
+    ])
+
+    expect(first).toEqual({ ok: true, data: [] })
+    expect(second).toEqual(first)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not share requests between calls with different options', async () => {
+    const customFetch = jest.fn().mockResolvedValue(lobstersStory('abc123'))
+    mockFetch.mockResolvedValue(lobstersStory('abc123'))
+
+    const discussion = { platform: 'lobsters', url: 'https://lobste.rs/s/abc123' }
+    await Promise.all([
+      fetchCommentsResult(discussion),
+      fetchCommentsResult(discussion, { fetch: customFetch }),
+      fetchCommentsResult(discussion, { fetch: customFetch }),
+      fetchCommentsResult(discussion, { hackerNewsSource: 'firebase' })
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(customFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should share requests between calls with equal inline options', async () => {
+    mockFetch.mockResolvedValue(lobstersStory('abc123'))
+
+    const discussion = { platform: 'lobsters', url: 'https://lobste.rs/s/abc123' }
+    await Promise.all([1, 2, 3].map(() => fetchCommentsResult(discussion, { retry: { maxAttempts: 2 }, headers: { 'X-Site': 'blog' } })))
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not share requests that have finished', async () => {
+    mockFetch.mockResolvedValue(lobstersStory('abc123'))
+
+    const discussion = { platform: 'lobsters', url: 'https://lobste.rs/s/abc123' }
+    await fetchCommentsResult(discussion)
+    await fetchCommentsResult(discussion)
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should limit concurrent requests per host', async () => {
+    let answerFirst: (response: Response) => void = () => undefined
+    mockFetch
+      .mockImplementationOnce(() => new Promise((resolve) => { answerFirst = resolve }))
+      .mockResolvedValueOnce(lobstersStory('def456'))
+
+    const options = { hostLimits: { 'lobste.rs': { concurrency: 1 } } }
+    const first = fetchCommentsResult({ platform: 'lobsters', url: 'https://lobste.rs/s/abc123' }, options)
+    const second = fetchCommentsResult({ platform: 'lobsters', url: 'https://lobste.rs/s/def456' }, options)
+
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    answerFirst(lobstersStory('abc123'))
+    expect(await first).toEqual({ ok: true, data: [] })
+    expect(await second).toEqual({ ok: true, data: [] })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should spread requests to stay under requests-per-minute limits', async () => {
+    jest.useFakeTimers()
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ comments: [] }) } as Response)
+
+    const options = { hostLimits: { 'lemmy.example': { requestsPerMinute: 2 } }, timeoutMs: 0 }
+    const pending = Promise.all(['1', '2', '3'].map((id) =>
+      fetchCommentsResult({ platform: 'lemmy', url: `https://lemmy.example/post/${id}` }, options)
+    ))
+
+    await jest.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(59999)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+
+    expect(await pending).toEqual([{ ok: true, data: [] }, { ok: true, data: [] }, { ok: true, data: [] }])
+    jest.useRealTimers()
+  })
+
+  it('should keep to the V2EX quota with platformQuotas, allowing more with a token', async () => {
+    jest.useFakeTimers()
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ replies: 0, success: true, result: { replies: 0 } }) } as Response)
+
+    const options = { platformQuotas: true, timeoutMs: 0 }
+    const pending = Promise.all(['1', '2', '3'].map((id) => fetchCommentCountResult({ url: `https://v2ex.com/t/${id}` }, options)))
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(59000)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    await pending
+
+    // The window still holds three requests, under the authenticated quota of ten a minute
+    await Promise.all(['4', '5'].map((id) => fetchCommentCountResult({ url: `https://v2ex.com/t/${id}` }, { ...options, v2exToken: 'token' })))
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+    jest.useRealTimers()
+  })
+
+  it('should not hold V2EX requests to a quota by default', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ replies: 0 }) } as Response)
+
+    await Promise.all(['1', '2', '3'].map((id) => fetchCommentCountResult({ url: `https://v2ex.com/t/${id}` })))
+
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should fail requests still queued after timeoutMs as RATE_LIMITED', async () => {
+    jest.useFakeTimers()
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ comments: [] }) } as Response)
+
+    const options = { hostLimits: { 'lemmy.example': { requestsPerMinute: 2 } }, timeoutMs: 1000 }
+    const pending = Promise.all(['1', '2', '3'].map((id) =>
+      fetchCommentsResult({ platform: 'lemmy', url: `https://lemmy.example/post/${id}` }, options)
+    ))
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(await pending).toEqual([
+      { ok: true, data: [] },
+      { ok: true, data: [] },
+      { ok: false, error: expect.objectContaining({ code: 'RATE_LIMITED' }) }
+    ])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    jest.useRealTimers()
+  })
+
+  it('should count time spent queued against timeoutMs', async () => {
+    jest.useFakeTimers()
+    const hang = (_url: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')))
+    })
+    let answerFirst: (response: Response) => void = () => undefined
+    mockFetch
+      .mockImplementationOnce(() => new Promise((resolve) => { answerFirst = resolve }))
+      .mockImplementationOnce(hang)
+
+    const options = { hostLimits: { 'queue.example': { concurrency: 1 } }, timeoutMs: 1000 }
+    const first = fetchCommentsResult({ platform: 'lemmy', url: 'https://queue.example/post/1' }, options)
+    const second = fetchCommentsResult({ platform: 'lemmy', url: 'https://queue.example/post/2' }, options)
+
+    await jest.advanceTimersByTimeAsync(600)
+    answerFirst({ ok: true, json: async () => ({ comments: [] }) } as Response)
+    expect(await first).toEqual({ ok: true, data: [] })
+
+    await jest.advanceTimersByTimeAsync(400)
+    expect(await second).toEqual({ ok: false, error: expect.objectContaining({ code: 'TIMEOUT' }) })
+    jest.useRealTimers()
+  })
+
+  it('should let an aborted request leave the queue', async () => {
+    let answerFirst: (response: Response) => void = () => undefined
+    mockFetch.mockImplementationOnce(() => new Promise((resolve) => { answerFirst = resolve }))
+
+    const options = { hostLimits: { 'queue.example': { concurrency: 1 } } }
+    const first = fetchCommentsResult({ platform: 'lemmy', url: 'https://queue.example/post/1' }, options)
+    const controller = new AbortController()
+    const second = fetchCommentsResult({ platform: 'lemmy', url: 'https://queue.example/post/2' }, { ...options, signal: controller.signal })
+
+    controller.abort()
+    expect(await second).toEqual({ ok: false, error: expect.objectContaining({ code: 'UPSTREAM_ERROR' }) })
+
+    answerFirst({ ok: true, json: async () => ({ comments: [] }) } as Response)
+    expect(await first).toEqual({ ok: true, data: [] })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('custom fetch and headers', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should send every request through a custom fetch', async () => {
+    const customFetch = jest.fn(async () => ({ ok: true, json: async () => ({ children: [] }) } as Response))
+
+    const result = await fetchHackerNewsComments('https://news.ycombinator.com/item?id=12345', {
+      fetch: customFetch as unknown as typeof fetch
+    })
+
+    expect(result).toEqual([])
+    expect(customFetch).toHaveBeenCalledWith('https://hn.algolia.com/api/v1/items/12345', expect.any(Object))
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should layer global and per-platform headers over the User-Agent', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] } as unknown as Response)
+
+    await fetchV2exComments('https://v2ex.com/t/123', {
+      userAgent: 'my-blog/1.0',
+      headers: { 'X-Trace': 'abc', 'Accept-Language': 'en' },
+      platformHeaders: { v2ex: { 'Accept-Language': 'zh-CN' }, reddit: { 'X-Reddit': 'no' } }
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      headers: { 'User-Agent': 'my-blog/1.0', 'X-Trace': 'abc', 'Accept-Language': 'zh-CN' }
+    }))
+  })
+
+  it('should let configured headers override the GitHub defaults', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] } as unknown as Response)
+
+    await fetchGitHubComments('https://github.com/owner/repo/issues/1', {
+      githubToken: 'secret',
+      platformHeaders: { github: { 'Accept': 'application/vnd.github.full+json' } }
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      headers: expect.objectContaining({
+        'Accept': 'application/vnd.github.full+json',
+        'Authorization': 'Bearer secret'
+      })
+    }))
+  })
+})
+
+describe('fetchAllExternalComments', () => {
+  beforeEach(() => {
+    mockFetch.mockClear()
+  })
+
+  it('should fetch comments from multiple platforms', async () => {
+    // Mock V2EX response
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 1, content: 'v2ex comment', created: 1234567890 }]
+    } as Response)
+
+    // Mock Reddit response  
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        {},
+        {
+          data: {
+            children: [
+              {
+                kind: 't1',
+                data: {
+                  id: 'reddit1',
+                  author: 'reddituser',
+                  body: 'reddit comment',
+                  created_utc: 1234567890,
+                  score: 10
+                }
+              }
+            ]
+          }
+        }
+      ]
+    } as Response)
+
+    const discussions: ExternalDiscussion[] = [
+      { platform: 'v2ex', url: 'https://v2ex.com/t/12345' },
+      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' }
+    ]
+
+    const result = await fetchAllExternalComments(discussions)
+
+    expect(Object.keys(result)).toEqual(['https://v2ex.com/t/12345', 'https://reddit.com/r/test/comments/123/'])
+    expect(result['https://v2ex.com/t/12345']).toHaveLength(1)
+    expect(result['https://reddit.com/r/test/comments/123/']).toHaveLength(1)
+  })
+
+  it('should keep separate results for threads on the same platform', async () => {
+    const redditResponse = (id: string) => ({
+      ok: true,
+      json: async () => [
+        {},
+        { data: { children: [{ kind: 't1', data: { id, author: 'u', body: id, created_utc: 1234567890, score: 1 } }] } }
+      ]
+    } as Response)
+
+    mockFetch.mockResolvedValueOnce(redditResponse('first'))
+    mockFetch.mockResolvedValueOnce(redditResponse('second'))
+
+    const discussions: ExternalDiscussion[] = [
+      { platform: 'reddit', url: 'https://reddit.com/r/programming/comments/1/' },
+      { platform: 'reddit', url: 'https://reddit.com/r/typescript/comments/2/', id: 'r-typescript' }
+    ]
+
+    const result = await fetchAllExternalComments(discussions)
+
+    expect(Object.keys(result)).toEqual(['https://reddit.com/r/programming/comments/1/', 'r-typescript'])
+    expect(result['https://reddit.com/r/programming/comments/1/'][0].content).toBe('first')
+    expect(result['r-typescript'][0].content).toBe('second')
+  })
+
+  it('should handle mixed success and failure', async () => {
+    // Mock successful V2EX response
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [{ id: 1, content: 'v2ex comment', created: 1234567890 }]
+    } as Response)
+
+    // Mock failed Reddit response
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500
+    } as Response)
+
+    const discussions: ExternalDiscussion[] = [
+      { platform: 'v2ex', url: 'https://v2ex.com/t/12345' },
+      { platform: 'reddit', url: 'https://reddit.com/r/test/comments/123/' }
+    ]
+
+    const result = await fetchAllExternalComments(discussions)
+
+    expect(result['https://v2ex.com/t/12345']).toHaveLength(1)
+    expect(result['https://reddit.com/r/test/comments/123/']).toEqual([]) // Should be empty array on failure
+  })
 
-    expect(result.v2ex).toHaveLength(1)
-    expect(result.reddit).toEqual([]) // Should be empty array on failure
+  it('should key discussions by id, falling back to URL', () => {
+    expect(getDiscussionKey({ platform: 'reddit', url: 'https://reddit.com/r/a/comments/1/' })).toBe('https://reddit.com/r/a/comments/1/')
+    expect(getDiscussionKey({ platform: 'reddit', url: 'https://reddit.com/r/a/comments/1/', id: 'a' })).toBe('a')
   })
 
   it('should handle empty discussions array', async () => {
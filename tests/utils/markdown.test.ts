@@ -0,0 +1,201 @@
+import React from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { markdownToRichContent } from '../../src/utils/markdown'
+import { renderCommentContent } from '../../src/utils/comment-format'
+import { fetchRedditComments, getCommentFormat, getPlatform } from '../../src/utils/fetch-comments'
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>
+
+const text = (value: string) => ({ type: 'text', text: value })
+const paragraph = (...children: unknown[]) => ({ type: 'paragraph', children })
+
+describe('markdownToRichContent', () => {
+  it('should join soft line breaks and keep hard ones', () => {
+    expect(markdownToRichContent('one\ntwo  \nthree\n\nfour')).toEqual([
+      paragraph(text('one two'), { type: 'break' }, text('three')),
+      paragraph(text('four'))
+    ])
+  })
+
+  it('should parse emphasis, strong, strikethrough and code spans', () => {
+    expect(markdownToRichContent('*a* **b** __c__ ~~d~~ `e *f*` snake_case_name')).toEqual([
+      paragraph(
+        { type: 'emphasis', children: [text('a')] },
+        text(' '),
+        { type: 'strong', children: [text('b')] },
+        text(' '),
+        { type: 'strong', children: [text('c')] },
+        text(' '),
+        { type: 'strikethrough', children: [text('d')] },
+        text(' '),
+        { type: 'code', text: 'e *f*' },
+        text(' snake_case_name')
+      )
+    ])
+  })
+
+  it('should nest emphasis inside strong text', () => {
+    expect(markdownToRichContent('**bold *and italic***')).toEqual([
+      paragraph({ type: 'strong', children: [text('bold '), { type: 'emphasis', children: [text('and italic')] }] })
+    ])
+  })
+
+  it('should parse spoilers, including at the start of a line', () => {
+    expect(markdownToRichContent('>!Snape kills Dumbledore!< and >!more!<')).toEqual([
+      paragraph(
+        { type: 'spoiler', children: [text('Snape kills Dumbledore')] },
+        text(' and '),
+        { type: 'spoiler', children: [text('more')] }
+      )
+    ])
+  })
+
+  it('should parse links and keep only safe targets', () => {
+    expect(markdownToRichContent('[docs](https://example.com/a_(b) "Title") [bad](javascript:alert(1)) <https://example.com>')).toEqual([
+      paragraph(
+        { type: 'link', href: 'https://example.com/a_(b)', children: [text('docs')] },
+        text(' bad '),
+        { type: 'link', href: 'https://example.com/', children: [text('https://example.com')] }
+      )
+    ])
+  })
+
+  it('should keep raw HTML as text', () => {
+    expect(markdownToRichContent('<img src=x onerror=alert(1)> <script>alert(1)</script>')).toEqual([
+      paragraph(text('<img src=x onerror=alert(1)> <script>alert(1)</script>'))
+    ])
+  })
+
+  it('should honor backslash escapes', () => {
+    expect(markdownToRichContent('\\*not emphasis\\* \\>!not a spoiler!<')).toEqual([
+      paragraph(text('*not emphasis* >!not a spoiler!<'))
+    ])
+  })
+
+  it('should strip only closing #s that follow whitespace from headings', () => {
+    expect(markdownToRichContent('# C#\n# Title #  \n# ###')).toEqual([
+      { type: 'heading', level: 1, children: [text('C#')] },
+      { type: 'heading', level: 1, children: [text('Title')] },
+      { type: 'heading', level: 1, children: [] }
+    ])
+  })
+
+  it('should parse quotes, headings and rules', () => {
+    expect(markdownToRichContent('> quoted\n> **text**\n\n## Heading ##\n\n---')).toEqual([
+      { type: 'quote', children: [paragraph(text('quoted '), { type: 'strong', children: [text('text')] })] },
+      { type: 'heading', level: 2, children: [text('Heading')] },
+      { type: 'rule' }
+    ])
+  })
+
+  it('should parse fenced and indented code blocks', () => {
+    expect(markdownToRichContent('```ts\nconst a = 1\n\n*not emphasis*\n```\n\n    indented\n      more')).toEqual([
+      { type: 'code', language: 'ts', text: 'const a = 1\n\n*not emphasis*' },
+      { type: 'code', text: 'indented\n  more' }
+    ])
+  })
+
+  it('should parse nested and ordered lists', () => {
+    expect(markdownToRichContent('- one\n- two\n  - nested\n\n3. three\n4. four')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          [paragraph(text('one'))],
+          [paragraph(text('two')), { type: 'list', ordered: false, items: [[paragraph(text('nested'))]] }]
+        ]
+      },
+      { type: 'list', ordered: true, start: 3, items: [[paragraph(text('three'))], [paragraph(text('four'))]] }
+    ])
+  })
+
+  it('should parse tables with alignment', () => {
+    expect(markdownToRichContent('| Name | Score |\n|:-----|------:|\n| *a* | 1 |\n| b |')).toEqual([{
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[text('Name')], [text('Score')]],
+      rows: [
+        [[{ type: 'emphasis', children: [text('a')] }], [text('1')]],
+        [[text('b')], []]
+      ]
+    }])
+  })
+
+  it('should leave unmatched delimiters as text', () => {
+    expect(markdownToRichContent('2 * 3 = 6, a ~~b, `c and **d')).toEqual([
+      paragraph(text('2 * 3 = 6, a ~~b, `c and **d'))
+    ])
+  })
+
+  it('should resolve relative links against a base URL', () => {
+    expect(markdownToRichContent('[sub](/r/foo)', 'https://www.reddit.com/')).toEqual([
+      paragraph({ type: 'link', href: 'https://www.reddit.com/r/foo', children: [text('sub')] })
+    ])
+  })
+
+  it('should not parse links inside link text', () => {
+    expect(markdownToRichContent('[a [b](https://one.example) <https://two.example>](https://three.example)')).toEqual([
+      paragraph({ type: 'link', href: 'https://three.example/', children: [text('a [b](https://one.example) <https://two.example>')] })
+    ])
+  })
+
+  it('should not parse spoilers inside link text', () => {
+    expect(markdownToRichContent('[>!x!<](https://example.com)')).toEqual([
+      paragraph({ type: 'link', href: 'https://example.com/', children: [text('>!x!<')] })
+    ])
+  })
+
+  it.each([
+    ['blank lines in a list item', `- a\n${'\n'.repeat(10000)}  b`],
+    ['a heading with a long run of spaces', `# a${' '.repeat(10000)}b`],
+    ['a paragraph line with a long run of spaces', `a${' '.repeat(10000)}b\nc`]
+  ])('should parse %s in linear time', (_, markdown) => {
+    const startTime = Date.now()
+    markdownToRichContent(markdown)
+    expect(Date.now() - startTime).toBeLessThan(100)
+  })
+
+  it.each([
+    ['quotes', '>'.repeat(5000)],
+    ['lists', '- 1. '.repeat(2000)]
+  ])('should keep %s nested too deeply as text', (_, markdown) => {
+    const content = markdownToRichContent(markdown)
+
+    let depth = 0
+    let block = content[0]
+    while (block.type === 'quote' || block.type === 'list') {
+      depth++
+      block = block.type === 'quote' ? block.children[0] : block.items[0][0]
+    }
+    expect(depth).toBe(16)
+    expect(block.type).toBe('paragraph')
+    expect(() => renderToStaticMarkup(React.createElement('div', null, renderCommentContent(markdown, 'markdown')))).not.toThrow()
+  })
+})
+
+describe('Reddit comment format', () => {
+  it('should render Reddit comments as Markdown with decoded entities', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        {},
+        { data: { children: [{ kind: 't1', data: { id: 'a', author: 'u', body: '&gt; quote &amp; &gt;!spoiler!&lt;', created_utc: 1, score: 1 } }] } }
+      ]
+    } as Response)
+
+    const [comment] = await fetchRedditComments('https://reddit.com/r/test/comments/123/')
+
+    expect(comment.content).toBe('> quote & >!spoiler!<')
+    expect(getCommentFormat(comment)).toBe('markdown')
+  })
+
+  it('should resolve relative Reddit links against reddit.com', () => {
+    const html = renderToStaticMarkup(React.createElement('div', null, renderCommentContent('[sub](/r/foo)', 'markdown', getPlatform('reddit')?.contentBaseUrl)))
+    expect(html).toContain('href="https://www.reddit.com/r/foo"')
+  })
+
+  it('should let a comment override its platform format', () => {
+    expect(getCommentFormat({ id: '1', author: 'a', content: '', timestamp: '', platform: 'reddit', format: 'text' })).toBe('text')
+    expect(getCommentFormat({ id: '1', author: 'a', content: '', timestamp: '', platform: 'hackernews' })).toBe('text')
+  })
+})
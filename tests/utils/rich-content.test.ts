@@ -0,0 +1,150 @@
+import { hasRichMarkup, htmlToRichContent, richContentToText } from '../../src/utils/rich-content'
+import { fetchHackerNewsComments } from '../../src/utils/fetch-comments'
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>
+
+describe('htmlToRichContent', () => {
+  it('should split Hacker News paragraphs', () => {
+    expect(htmlToRichContent('First<p>Second &amp; third<p>Fourth')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'First' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Second & third' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Fourth' }] }
+    ])
+  })
+
+  it('should keep links, emphasis, strong text and inline code', () => {
+    const html = 'See <a href="https:&#x2F;&#x2F;example.com&#x2F;a?b=1&amp;c=2" rel="nofollow">the <i>docs</i></a>, <b>really</b>: <code>npm i</code>'
+
+    expect(htmlToRichContent(html)).toEqual([{
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'See ' },
+        {
+          type: 'link',
+          href: 'https://example.com/a?b=1&c=2',
+          children: [{ type: 'text', text: 'the ' }, { type: 'emphasis', children: [{ type: 'text', text: 'docs' }] }]
+        },
+        { type: 'text', text: ', ' },
+        { type: 'strong', children: [{ type: 'text', text: 'really' }] },
+        { type: 'text', text: ': ' },
+        { type: 'code', text: 'npm i' }
+      ]
+    }])
+  })
+
+  it('should keep the whitespace of code blocks', () => {
+    const html = 'Try this:<p><pre><code>  if (x) {\n    y()\n  }\n</code></pre>Done'
+
+    expect(htmlToRichContent(html)).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Try this:' }] },
+      { type: 'code', text: '  if (x) {\n    y()\n  }' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Done' }] }
+    ])
+  })
+
+  it('should keep line breaks and collapse other whitespace', () => {
+    expect(htmlToRichContent('<p>  one\n  two<br/>  three  </p>')).toEqual([{
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'one two' }, { type: 'break' }, { type: 'text', text: 'three' }]
+    }])
+  })
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    'java&#x09;script:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    '/relative/path'
+  ])('should reduce a link to %s to its text', (href) => {
+    expect(htmlToRichContent(`<a href="${href}">click</a>`)).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'click' }] }
+    ])
+  })
+
+  it('should resolve relative links against a base URL', () => {
+    expect(htmlToRichContent('<a href="/u/alice">@alice</a>', 'https://forum.example.com/t/topic/1')).toEqual([{
+      type: 'paragraph',
+      children: [{ type: 'link', href: 'https://forum.example.com/u/alice', children: [{ type: 'text', text: '@alice' }] }]
+    }])
+  })
+
+  it('should drop scripts, styles, comments and unknown markup', () => {
+    const html = '<p onclick="x()">Hi <span class="h-card"><img src=x onerror=alert(1)>there</span><script>alert(1)</script><style>p{}</style><!-- note --></p>'
+
+    expect(htmlToRichContent(html)).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Hi there' }] }
+    ])
+  })
+
+  it('should decode entities once', () => {
+    expect(richContentToText(htmlToRichContent('&amp;lt;b&amp;gt; &lt;i&gt; &#8220;q&#8221; &unknown;'))).toBe('&lt;b&gt; <i> “q” &unknown;')
+  })
+
+  it('should tolerate unclosed and stray tags', () => {
+    expect(richContentToText(htmlToRichContent('<i>open <b>nested</i> after</b> text</a>'))).toBe('open nested after text')
+  })
+
+  it('should keep the text of inline elements nested too deeply', () => {
+    const content = htmlToRichContent(`${'<i>'.repeat(5000)}deep${'</i>'.repeat(5000)} after`)
+
+    let depth = 0
+    let node = content[0].type === 'paragraph' ? content[0].children[0] : undefined
+    while (node?.type === 'emphasis') {
+      depth++
+      node = node.children[0]
+    }
+    expect(depth).toBe(16)
+    expect(richContentToText(content)).toBe('deep after')
+  })
+
+  it('should ignore tags named after object properties', () => {
+    expect(htmlToRichContent('<constructor>a</constructor><toString>b')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'ab' }] }
+    ])
+  })
+})
+
+describe('richContentToText', () => {
+  it('should separate blocks with a blank line', () => {
+    expect(richContentToText(htmlToRichContent('<p>One<br>Two</p><pre>code</pre><p>Three</p>'))).toBe('One\nTwo\n\ncode\n\nThree')
+  })
+})
+
+describe('hasRichMarkup', () => {
+  it('should be false for a single paragraph of text', () => {
+    expect(hasRichMarkup(htmlToRichContent('Just &quot;text&quot;'))).toBe(false)
+  })
+
+  it('should be true for paragraphs, links or code', () => {
+    expect(hasRichMarkup(htmlToRichContent('a<p>b'))).toBe(true)
+    expect(hasRichMarkup(htmlToRichContent('<a href="https://example.com">a</a>'))).toBe(true)
+    expect(hasRichMarkup(htmlToRichContent('<pre>a</pre>'))).toBe(true)
+  })
+})
+
+describe('rich content in fetched comments', () => {
+  it('should attach rich content to Hacker News comments with markup', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        children: [
+          { id: 1, author: 'a', text: 'Plain &amp; simple', created_at: '2023-01-01T00:00:00.000Z' },
+          { id: 2, author: 'b', text: 'Read <a href="https://example.com">this</a><p>Thanks', created_at: '2023-01-01T00:00:00.000Z' }
+        ]
+      })
+    } as Response)
+
+    const [plain, rich] = await fetchHackerNewsComments('https://news.ycombinator.com/item?id=1')
+
+    expect(plain.content).toBe('Plain & simple')
+    expect(plain).not.toHaveProperty('richContent')
+    expect(rich.content).toBe('Read this\n\nThanks')
+    expect(rich.richContent).toEqual([
+      {
+        type: 'paragraph',
+        children: [{ type: 'text', text: 'Read ' }, { type: 'link', href: 'https://example.com/', children: [{ type: 'text', text: 'this' }] }]
+      },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Thanks' }] }
+    ])
+  })
+})